@@ -79,6 +79,67 @@ describe('Bible Linker', () => {
             expect(result).toContain('https://ref.ly/Ge1.1;esv');
         });
 
+        it('should link each part of a compound reference', () => {
+            const text = 'See Rom 8:1, 28–30; 9:1.';
+            const result = linkBibleVerses(text, 'esv');
+
+            expect(result).toBe('See [Rom 8:1](https://ref.ly/Ro8.1;esv), [28–30](https://ref.ly/Ro8.28-30;esv); [9:1](https://ref.ly/Ro9.1;esv).');
+        });
+
+        it('should link chapter-only references and ranges across chapters', () => {
+            const text = 'Psalm 23 and John 3:16–4:2';
+            const result = linkBibleVerses(text, 'esv');
+
+            expect(result).toContain('[Psalm 23](https://ref.ly/Ps23;esv)');
+            expect(result).toContain('[John 3:16–4:2](https://ref.ly/Jn3.16-4.2;esv)');
+        });
+
+        it('should leave prose that only looks like a chapter reference alone', () => {
+            const text = 'Mark 5 people came, and Numbers 3 and 4 are odd.';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+            expect(linkBibleVerses('Jude 3', 'esv')).toBe('[Jude 3](https://ref.ly/Jud1.3;esv)');
+        });
+
+        it('should not relink existing Markdown links', () => {
+            const text = 'See [John 3:16](https://ref.ly/Jn3.16;esv) and [Rom 8:1][r].';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not link references inside URLs', () => {
+            const text = 'John 1:1 and https://www.biblegateway.com/passage/?search=John+3:16';
+            expect(linkBibleVerses(text, 'esv')).toBe('[John 1:1](https://ref.ly/Jn1.1;esv) and https://www.biblegateway.com/passage/?search=John+3:16');
+        });
+
+        it('should not link references inside inline code or code blocks', () => {
+            const text = 'Type `John 3:16` or\n```\nRom 8:1\n```';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not link references inside wikilinks or embeds', () => {
+            const text = 'See [[John 3:16]] and ![[Romans 8:1#Notes]]';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not touch block IDs', () => {
+            const text = '> [[refs|Smith, p. 3]] ^Jn-3-16';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should not link inside HTML attributes but should link the text between tags', () => {
+            const text = '<span title="John 3:16">Rom 8:1</span>';
+            expect(linkBibleVerses(text, 'esv')).toBe('<span title="John 3:16">[Rom 8:1](https://ref.ly/Ro8.1;esv)</span>');
+        });
+
+        it('should not link across a protected span', () => {
+            const text = 'John [[x]] 3:16';
+            expect(linkBibleVerses(text, 'esv')).toBe(text);
+        });
+
+        it('should link prose next to protected spans', () => {
+            const text = '`code` John 3:16 [[note]]';
+            expect(linkBibleVerses(text, 'esv')).toBe('`code` [John 3:16](https://ref.ly/Jn3.16;esv) [[note]]');
+        });
+
         it('should handle Psalms correctly', () => {
             const text = 'Psalm 23:1 and Ps 119:105';
             const result = linkBibleVerses(text, 'esv');
@@ -0,0 +1,82 @@
+import { BIBLIOGRAPHY_END, BIBLIOGRAPHY_START, formatBibliography, formatBibliographyEntry, replaceBibliographySection, sortBibliographyEntries } from '../utils/bibliography';
+import { parseBibtexEntry } from '../utils/bibtex-parser';
+
+const entry = (source: string) => {
+    const parsed = parseBibtexEntry(source);
+    if (!parsed) throw new Error('Invalid test entry');
+    return parsed;
+};
+
+const BOOK = entry('@book{Grudem_1994, author = {Grudem, Wayne}, title = {Systematic Theology}, address = {Grand Rapids}, publisher = {Zondervan}, year = {1994}}');
+const SERIES = entry('@book{Moo_1996, author = {Moo, Douglas J.}, title = {The Epistle to the Romans}, series = {NICNT}, address = {Grand Rapids}, publisher = {Eerdmans}, year = {1996}}');
+const ARTICLE = entry('@article{Wright_1978, author = {Wright, N. T.}, title = {The Paul of History and the Apostle of Faith}, journal = {Tyndale Bulletin}, volume = {29}, pages = {61--88}, year = {1978}}');
+const CHAPTER = entry('@incollection{Carson_1984, author = {Carson, D. A.}, editor = {Gaebelein, Frank E.}, title = {Matthew}, booktitle = {The Expositor\'s Bible Commentary}, pages = {1--599}, address = {Grand Rapids}, publisher = {Zondervan}, year = {1984}}');
+
+describe('Bibliography', () => {
+    describe('formatBibliographyEntry', () => {
+        it('should format a book in Chicago', () => {
+            expect(formatBibliographyEntry(BOOK, 'chicago')).toBe('Grudem, Wayne. *Systematic Theology*. Grand Rapids: Zondervan, 1994.');
+        });
+
+        it('should add the series in SBL', () => {
+            expect(formatBibliographyEntry(SERIES, 'sbl')).toBe('Moo, Douglas J. *The Epistle to the Romans*. NICNT. Grand Rapids: Eerdmans, 1996.');
+            expect(formatBibliographyEntry(SERIES, 'chicago')).toBe('Moo, Douglas J. *The Epistle to the Romans*. Grand Rapids: Eerdmans, 1996.');
+        });
+
+        it('should format articles and chapters', () => {
+            expect(formatBibliographyEntry(ARTICLE, 'chicago'))
+                .toBe('Wright, N. T. “The Paul of History and the Apostle of Faith.” *Tyndale Bulletin* 29 (1978): 61–88.');
+            expect(formatBibliographyEntry(CHAPTER, 'sbl'))
+                .toBe('Carson, D. A. “Matthew.” In *The Expositor\'s Bible Commentary*, edited by Frank E. Gaebelein, 1–599. Grand Rapids: Zondervan, 1984.');
+        });
+
+        it('should format APA entries', () => {
+            expect(formatBibliographyEntry(BOOK, 'apa')).toBe('Grudem, W. (1994). *Systematic Theology*. Zondervan.');
+            expect(formatBibliographyEntry(ARTICLE, 'apa'))
+                .toBe('Wright, N. T. (1978). The Paul of History and the Apostle of Faith. *Tyndale Bulletin*, *29*, 61–88.');
+            expect(formatBibliographyEntry(CHAPTER, 'apa'))
+                .toBe('Carson, D. A. (1984). Matthew. In F. E. Gaebelein (Ed.), *The Expositor\'s Bible Commentary* (pp. 1–599). Zondervan.');
+        });
+    });
+
+    describe('sortBibliographyEntries', () => {
+        it('should sort by author family name', () => {
+            expect(sortBibliographyEntries([ARTICLE, BOOK, SERIES, CHAPTER]).map(e => e.key))
+                .toEqual(['Carson_1984', 'Grudem_1994', 'Moo_1996', 'Wright_1978']);
+        });
+    });
+
+    describe('formatBibliography', () => {
+        it('should drop duplicate cite keys', () => {
+            const duplicate = entry('@book{Grudem-1994, title = {Copy}}');
+            expect(formatBibliography([BOOK, duplicate], 'chicago').split('\n\n')).toHaveLength(1);
+        });
+
+        it('should output a fenced bibtex block', () => {
+            const output = formatBibliography([SERIES, BOOK], 'bibtex');
+            expect(output).toBe(`\`\`\`bibtex\n${BOOK.raw}\n\n${SERIES.raw}\n\`\`\``);
+        });
+    });
+
+    describe('replaceBibliographySection', () => {
+        it('should add a section the first time and replace it after', () => {
+            const first = replaceBibliographySection('# Paper\n\nText\n', 'Old entry.');
+            expect(first).toBe(`# Paper\n\nText\n\n## Bibliography\n${BIBLIOGRAPHY_START}\nOld entry.\n${BIBLIOGRAPHY_END}\n`);
+
+            const second = replaceBibliographySection(`${first}\n## Appendix\n`, 'New entry.');
+            expect(second).toBe(`# Paper\n\nText\n\n## Bibliography\n${BIBLIOGRAPHY_START}\nNew entry.\n${BIBLIOGRAPHY_END}\n\n## Appendix\n`);
+        });
+
+        it('should replace the sections the command wrote before it used markers', () => {
+            const legacy = '# Paper\n\nText\n\n## Bibliography\n@book{Old_1990,\n  title = {Old}\n}\n\n## Appendix\n\nNotes\n\n## Bibliography\n@book{Old_1990}';
+            expect(replaceBibliographySection(legacy, 'New entry.'))
+                .toBe(`# Paper\n\nText\n\n## Bibliography\n${BIBLIOGRAPHY_START}\nNew entry.\n${BIBLIOGRAPHY_END}\n\n## Appendix\n\nNotes\n`);
+        });
+
+        it('should replace the subsections of an old section and skip headings in code blocks', () => {
+            const content = '# Paper\n\n```md\n## Bibliography\n```\n\n## Bibliography\n\nOld entry.\n\n### Primary sources\n\nOld source.\n';
+            expect(replaceBibliographySection(content, 'New entry.'))
+                .toBe(`# Paper\n\n\`\`\`md\n## Bibliography\n\`\`\`\n\n## Bibliography\n${BIBLIOGRAPHY_START}\nNew entry.\n${BIBLIOGRAPHY_END}\n`);
+        });
+    });
+});
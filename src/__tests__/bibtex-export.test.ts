@@ -0,0 +1,79 @@
+import { collectExportEntries, formatBibFile, formatCslJson, parseCslNames, toCslItem } from '../utils/bibtex-export';
+import { parseBibtexEntry } from '../utils/bibtex-parser';
+
+const entry = (source: string) => {
+    const parsed = parseBibtexEntry(source);
+    if (!parsed) throw new Error('Invalid test entry');
+    return parsed;
+};
+
+const GRUDEM = entry('@book{Grudem_1994,\n  author = {Grudem, Wayne},\n  title = {Systematic Theology},\n  publisher = {Zondervan},\n  address = {Grand Rapids, MI},\n  year = {1994}\n}');
+const CARSON = entry('@incollection{Carson:1984,\n  author = {D. A. Carson},\n  editor = {Gaebelein, Frank E.},\n  title = {Matthew},\n  booktitle = {The Expositor\'s Bible Commentary},\n  volume = {8},\n  pages = {1--599},\n  date = {1984-05}\n}');
+
+describe('BibTeX Export', () => {
+    describe('collectExportEntries', () => {
+        it('should normalize cite keys, drop duplicates and sort', () => {
+            const duplicate = entry('@book{Grudem-1994, title = {Another copy}}');
+            const entries = collectExportEntries([GRUDEM, CARSON, duplicate]);
+
+            expect(entries.map(e => e.key)).toEqual(['Carson-1984', 'Grudem-1994']);
+            expect(entries[1].raw.startsWith('@book{Grudem-1994,\n  author = {Grudem, Wayne},')).toBe(true);
+        });
+    });
+
+    describe('formatBibFile', () => {
+        it('should separate entries with a blank line', () => {
+            const bib = formatBibFile(collectExportEntries([GRUDEM, CARSON]));
+            expect(bib).toMatch(/^@incollection\{Carson-1984,[\s\S]*\}\n\n@book\{Grudem-1994,[\s\S]*\}\n$/);
+        });
+    });
+
+    describe('toCslItem', () => {
+        it('should map a book', () => {
+            expect(toCslItem(GRUDEM)).toEqual({
+                id: 'Grudem_1994',
+                type: 'book',
+                author: [{ family: 'Grudem', given: 'Wayne' }],
+                title: 'Systematic Theology',
+                publisher: 'Zondervan',
+                'publisher-place': 'Grand Rapids, MI',
+                issued: { 'date-parts': [[1994]] }
+            });
+        });
+
+        it('should map a chapter with its container, editors and date', () => {
+            const item = toCslItem(CARSON);
+            expect(item.type).toBe('chapter');
+            expect(item.author).toEqual([{ family: 'Carson', given: 'D. A.' }]);
+            expect(item.editor).toEqual([{ family: 'Gaebelein', given: 'Frank E.' }]);
+            expect(item['container-title']).toBe('The Expositor\'s Bible Commentary');
+            expect(item.page).toBe('1--599');
+            expect(item.issued).toEqual({ 'date-parts': [[1984, 5]] });
+        });
+
+        it('should fall back to a generic type and a literal date', () => {
+            const item = toCslItem(entry('@misc{Notes, title = {Class notes}, year = {n.d.}}'));
+            expect(item).toEqual({ id: 'Notes', type: 'document', title: 'Class notes', issued: { literal: 'n.d.' } });
+        });
+    });
+
+    describe('parseCslNames', () => {
+        it('should keep braced names whole', () => {
+            expect(parseCslNames('{{Crossway Bibles} and Packer, J. I.}')).toEqual([
+                { literal: 'Crossway Bibles' },
+                { family: 'Packer', given: 'J. I.' }
+            ]);
+        });
+
+        it('should not split on "and" inside braces', () => {
+            expect(parseCslNames('{{Barnes and Noble}}')).toEqual([{ literal: 'Barnes and Noble' }]);
+        });
+    });
+
+    describe('formatCslJson', () => {
+        it('should write a JSON array', () => {
+            const json = JSON.parse(formatCslJson(collectExportEntries([GRUDEM]))) as Array<{ id: string }>;
+            expect(json.map(item => item.id)).toEqual(['Grudem-1994']);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { bibtexEntriesEqual, classifyImport, mergeBibtexEntries, prepareImportEntry, replaceBibtexBlock, resolveImportConflict } from '../utils/bibtex-import';
+import { getBibtexField, parseBibtexEntry } from '../utils/bibtex-parser';
+import { extractBookTitle, extractCiteKey, parseLogosClipboard } from '../utils/clipboard-parser';
+import { generateNotePath, getReferenceNoteName } from '../utils/file-utils';
+
+const entry = (source: string) => {
+    const parsed = parseBibtexEntry(source);
+    if (!parsed) throw new Error('Invalid test entry');
+    return parsed;
+};
+
+const IMPORTED = entry('@book{Grudem_1994,\n  author = {Grudem, Wayne},\n  title = {Systematic Theology},\n  publisher = {Zondervan},\n  year = {1994}\n}');
+const NOTE = '---\ntags: \n---\n\n```bibtex\n@book{Grudem_1994,\n  title = {Systematic Theology},\n  author = {Grudem, Wayne},\n  year = 1994\n}\n```\n\n## Citations\n- [[Sermon#^Grudem_1994-1]]';
+
+describe('BibTeX Import', () => {
+    describe('prepareImportEntry', () => {
+        it('should resolve to the same note as a pasted citation of the same source', () => {
+            const pasted = parseLogosClipboard(`Quote.\n@book{Grudem_1994,\n  title = {Systematic Theology},\n  pages = {226},\n  year = {1994}\n}`);
+            const imported = entry('@book{Grudem_1994,\n  title = {Systematic Theology},\n  pages = {1--1264},\n  year = {1994}\n}');
+
+            [false, true].forEach(appendReferencesToTitle => {
+                const pastedPath = generateNotePath(getReferenceNoteName(extractCiteKey(pasted.bibtex), extractBookTitle(pasted.bibtex), appendReferencesToTitle), 'refs');
+                expect(prepareImportEntry(imported, 'refs', appendReferencesToTitle).filePath).toBe(pastedPath);
+            });
+            expect(prepareImportEntry(imported, 'refs', false).filePath).toBe('refs/Grudem-1994.md');
+        });
+
+        it('should drop the pages field like the paste command', () => {
+            const { entry: prepared } = prepareImportEntry(entry('@book{Grudem_1994,\n  title = {Systematic Theology},\n  pages = {226}\n}'), '', false);
+            expect(getBibtexField(prepared, 'pages')).toBeNull();
+            expect(getBibtexField(prepared, 'title')).toBe('Systematic Theology');
+        });
+    });
+
+    describe('classifyImport', () => {
+        it('should tell new, unchanged and conflicting entries apart', () => {
+            expect(classifyImport(IMPORTED, null)).toBe('new');
+            expect(classifyImport(IMPORTED, NOTE)).toBe('conflict');
+            expect(classifyImport(IMPORTED, `\`\`\`bibtex\n${IMPORTED.raw}\n\`\`\``)).toBe('unchanged');
+            expect(classifyImport(IMPORTED, '# Notes without bibtex')).toBe('conflict');
+        });
+    });
+
+    describe('bibtexEntriesEqual', () => {
+        it('should ignore field order and delimiters', () => {
+            const reordered = entry('@BOOK{Grudem_1994, year = "1994", publisher = "Zondervan", title = {Systematic Theology}, author = {Grudem, Wayne}}');
+            expect(bibtexEntriesEqual(IMPORTED, reordered)).toBe(true);
+        });
+    });
+
+    describe('mergeBibtexEntries', () => {
+        it('should keep existing fields and add the missing ones', () => {
+            const existing = entry('@book{Grudem_1994, title = {Systematic Theology: An Introduction}, year = {1994}}');
+            expect(mergeBibtexEntries(existing, IMPORTED)).toBe([
+                '@book{Grudem_1994, title = {Systematic Theology: An Introduction}, year = {1994},',
+                '  author = {Grudem, Wayne},',
+                '  publisher = {Zondervan}',
+                '}'
+            ].join('\n'));
+        });
+
+        it('should keep braces and escapes of the existing and added fields as written', () => {
+            const existing = entry('@book{Calvin,\n  title = {The {Lord\'s} Supper},\n  publisher = {Banner of Truth \\& Co.},\n}');
+            const incoming = entry('@book{Calvin, title = {Other}, series = {Studies in {Reformed} Theology \\& History}, year = 1990, month = jan}');
+            expect(mergeBibtexEntries(existing, incoming)).toBe([
+                '@book{Calvin,',
+                '  title = {The {Lord\'s} Supper},',
+                '  publisher = {Banner of Truth \\& Co.},',
+                '  series = {Studies in {Reformed} Theology \\& History},',
+                '  year = 1990,',
+                '  month = {January}',
+                '}'
+            ].join('\n'));
+        });
+    });
+
+    describe('resolveImportConflict', () => {
+        it('should replace only the bibtex block and keep the rest of the note', () => {
+            const updated = resolveImportConflict(NOTE, IMPORTED, 'replace');
+            expect(updated).toContain(IMPORTED.raw);
+            expect(updated).toMatch(/^---\ntags: \n---\n\n```bibtex\n/);
+            expect(updated).toContain('## Citations\n- [[Sermon#^Grudem_1994-1]]');
+        });
+
+        it('should merge fields or leave the note alone', () => {
+            expect(resolveImportConflict(NOTE, IMPORTED, 'merge')).toContain('publisher = {Zondervan}');
+            expect(resolveImportConflict(NOTE, IMPORTED, 'skip')).toBeNull();
+        });
+    });
+
+    describe('replaceBibtexBlock', () => {
+        it('should add a block after the frontmatter when the note has none', () => {
+            expect(replaceBibtexBlock('---\na: 1\n---\n\nBody', '@book{x}')).toBe('---\na: 1\n---\n\n```bibtex\n@book{x}\n```\n\nBody');
+        });
+    });
+});
@@ -0,0 +1,214 @@
+import {
+    parseBibtex,
+    parseBibtexEntry,
+    parseBibtexCodeBlocks,
+    getBibtexField,
+    removeBibtexField,
+    setBibtexField,
+    stringifyBibtexEntry,
+    formatBibtexEntry
+} from '../utils/bibtex-parser';
+
+// Single-line entries as Logos copies them with the "BibTeX Style" citation setting
+const LOGOS_GRUDEM = '@book{Grudem_1994, place={Leicester, England; Grand Rapids, MI}, title={Systematic Theology: An Introduction to Biblical Doctrine}, publisher={Inter-Varsity Press; Zondervan Pub. House}, author={Grudem, Wayne A.}, year={1994}, pages={1009} }';
+
+const LOGOS_WALTKE = `@book{Waltke_Yu_2007,
+  place={Grand Rapids, MI},
+  title={An Old Testament Theology: An Exegetical, Canonical, and Thematic Approach},
+  publisher={Zondervan},
+  author={Waltke, Bruce K. and Yu, Charles},
+  year={2007},
+  pages={254}
+}`;
+
+const LOGOS_ARTICLE = '@article{Carson_1982, title={The Function of the Paraclete in John 16:7-11}, volume={98}, number={4}, journal={Journal of Biblical Literature}, author={Carson, D. A.}, year={1982}, pages={547–566} }';
+
+describe('BibTeX Parser', () => {
+    describe('parseBibtex', () => {
+        it('should parse a single-line Logos export', () => {
+            const entry = parseBibtexEntry(LOGOS_GRUDEM);
+
+            expect(entry?.type).toBe('book');
+            expect(entry?.key).toBe('Grudem_1994');
+            expect(entry?.fields.map(f => f.name)).toEqual(['place', 'title', 'publisher', 'author', 'year', 'pages']);
+            expect(entry && getBibtexField(entry, 'place')).toBe('Leicester, England; Grand Rapids, MI');
+            expect(entry && getBibtexField(entry, 'pages')).toBe('1009');
+        });
+
+        it('should parse a multi-line Logos export', () => {
+            const entry = parseBibtexEntry(LOGOS_WALTKE);
+
+            expect(entry?.key).toBe('Waltke_Yu_2007');
+            expect(entry && getBibtexField(entry, 'author')).toBe('Waltke, Bruce K. and Yu, Charles');
+            expect(entry && getBibtexField(entry, 'year')).toBe('2007');
+        });
+
+        it('should parse journal articles with en-dash page ranges', () => {
+            const entry = parseBibtexEntry(LOGOS_ARTICLE);
+
+            expect(entry?.type).toBe('article');
+            expect(entry && getBibtexField(entry, 'journal')).toBe('Journal of Biblical Literature');
+            expect(entry && getBibtexField(entry, 'pages')).toBe('547–566');
+        });
+
+        it('should handle nested braces', () => {
+            const entry = parseBibtexEntry("@book{key, title = {The {Lord's} Supper}, year = 2001}");
+
+            expect(entry && getBibtexField(entry, 'title')).toBe("The Lord's Supper");
+            expect(entry?.fields[0].raw).toBe("{The {Lord's} Supper}");
+            expect(entry && getBibtexField(entry, 'year')).toBe('2001');
+        });
+
+        it('should handle quoted values containing braces and commas', () => {
+            const entry = parseBibtexEntry('@book{key, title = "Grace, {Faith} and \\"Works\\"", author = {Doe, Jane}}');
+
+            expect(entry && getBibtexField(entry, 'title')).toBe('Grace, Faith and \\"Works\\"');
+            expect(entry && getBibtexField(entry, 'author')).toBe('Doe, Jane');
+        });
+
+        it('should expand @string macros and # concatenation', () => {
+            const source = `@string{zon = "Zondervan"}
+@string{gr = {Grand Rapids}}
+@book{key,
+  publisher = zon,
+  place = gr # ", MI",
+  month = jan,
+}`;
+            const entries = parseBibtex(source);
+
+            expect(entries).toHaveLength(1);
+            expect(getBibtexField(entries[0], 'publisher')).toBe('Zondervan');
+            expect(getBibtexField(entries[0], 'place')).toBe('Grand Rapids, MI');
+            expect(getBibtexField(entries[0], 'month')).toBe('January');
+        });
+
+        it('should join values split across lines', () => {
+            const entry = parseBibtexEntry(`@book{key,
+  title = {A Very Long Title
+           That Wraps Onto The Next Line},
+}`);
+
+            expect(entry && getBibtexField(entry, 'title')).toBe('A Very Long Title That Wraps Onto The Next Line');
+        });
+
+        it('should unescape LaTeX special characters', () => {
+            const entry = parseBibtexEntry('@book{key, publisher = {Baker \\& Taylor}}');
+            expect(entry && getBibtexField(entry, 'publisher')).toBe('Baker & Taylor');
+        });
+
+        it('should skip @comment and @preamble blocks', () => {
+            const source = '@comment{ignore me}\n@preamble{"\\newcommand"}\n' + LOGOS_ARTICLE;
+            const entries = parseBibtex(source);
+
+            expect(entries).toHaveLength(1);
+            expect(entries[0].key).toBe('Carson_1982');
+        });
+
+        it('should parse several entries and record their offsets', () => {
+            const source = `${LOGOS_GRUDEM}\n\n${LOGOS_WALTKE}`;
+            const entries = parseBibtex(source);
+
+            expect(entries.map(e => e.key)).toEqual(['Grudem_1994', 'Waltke_Yu_2007']);
+            expect(source.slice(entries[1].start, entries[1].end)).toBe(LOGOS_WALTKE);
+        });
+
+        it('should accept parenthesized entries', () => {
+            const entry = parseBibtexEntry('@book(key, title = {Parens})');
+            expect(entry && getBibtexField(entry, 'title')).toBe('Parens');
+        });
+
+        it('should return null when there is no entry', () => {
+            expect(parseBibtexEntry('Just a quote')).toBeNull();
+        });
+    });
+
+    describe('getBibtexField', () => {
+        it('should match field names case-insensitively', () => {
+            const entry = parseBibtexEntry('@book{key, TITLE = {Upper}}');
+            expect(entry && getBibtexField(entry, 'Title')).toBe('Upper');
+        });
+
+        it('should return null for missing fields', () => {
+            const entry = parseBibtexEntry(LOGOS_GRUDEM);
+            expect(entry && getBibtexField(entry, 'isbn')).toBeNull();
+        });
+    });
+
+    describe('stringifyBibtexEntry', () => {
+        it('should write entries back out unchanged', () => {
+            [LOGOS_GRUDEM, LOGOS_WALTKE, LOGOS_ARTICLE].forEach(source => {
+                const entry = parseBibtexEntry(source);
+                expect(entry && stringifyBibtexEntry(entry)).toBe(source);
+            });
+        });
+    });
+
+    describe('removeBibtexField', () => {
+        it('should remove a field from a single-line entry', () => {
+            const entry = parseBibtexEntry(LOGOS_GRUDEM);
+            const result = entry && stringifyBibtexEntry(removeBibtexField(entry, 'pages'));
+
+            expect(result).toBe('@book{Grudem_1994, place={Leicester, England; Grand Rapids, MI}, title={Systematic Theology: An Introduction to Biblical Doctrine}, publisher={Inter-Varsity Press; Zondervan Pub. House}, author={Grudem, Wayne A.}, year={1994}, }');
+        });
+
+        it('should remove the whole line from a multi-line entry', () => {
+            const entry = parseBibtexEntry(LOGOS_WALTKE);
+            const result = entry && removeBibtexField(entry, 'place');
+
+            expect(result && stringifyBibtexEntry(result)).toBe(LOGOS_WALTKE.replace('  place={Grand Rapids, MI},\n', ''));
+            expect(result && getBibtexField(result, 'place')).toBeNull();
+            expect(result && getBibtexField(result, 'pages')).toBe('254');
+        });
+
+        it('should return the entry untouched when the field is missing', () => {
+            const entry = parseBibtexEntry(LOGOS_WALTKE);
+            expect(entry && removeBibtexField(entry, 'isbn')).toBe(entry);
+        });
+    });
+
+    describe('setBibtexField', () => {
+        it('should replace a value in place', () => {
+            const entry = parseBibtexEntry(LOGOS_WALTKE);
+            const result = entry && setBibtexField(entry, 'title', 'An Old Testament Theology');
+
+            expect(result && stringifyBibtexEntry(result)).toBe(LOGOS_WALTKE.replace(/title=\{[^}]*\}/, 'title={An Old Testament Theology}'));
+        });
+
+        it('should add a missing field at the end', () => {
+            const entry = parseBibtexEntry(LOGOS_GRUDEM);
+            const result = entry && setBibtexField(entry, 'edition', '2');
+
+            expect(result && getBibtexField(result, 'edition')).toBe('2');
+            expect(result && getBibtexField(result, 'pages')).toBe('1009');
+            expect(result?.raw.endsWith('pages={1009},\n  edition = {2}\n}')).toBe(true);
+        });
+    });
+
+    describe('parseBibtexCodeBlocks', () => {
+        it('should parse entries from bibtex code blocks in a note', () => {
+            const note = `---\ntags: \n---\n\n\`\`\`bibtex\n${LOGOS_WALTKE}\n\`\`\`\n\n## Citations\n- [[Sermon#^Waltke-Yu-2007-1]]`;
+            const entries = parseBibtexCodeBlocks(note);
+
+            expect(entries).toHaveLength(1);
+            expect(entries[0].key).toBe('Waltke_Yu_2007');
+        });
+
+        it('should ignore other code blocks', () => {
+            expect(parseBibtexCodeBlocks('```js\n@book{x, title={y}}\n```')).toEqual([]);
+        });
+    });
+
+    describe('formatBibtexEntry', () => {
+        it('should build an entry that parses back to the same values', () => {
+            const source = formatBibtexEntry('Book', 'doe2021', [
+                ['title', 'Biblical Studies'],
+                ['author', 'Doe, Jane'],
+                ['isbn', '']
+            ]);
+            const entry = parseBibtexEntry(source);
+
+            expect(source).toBe('@book{doe2021,\n  title = {Biblical Studies},\n  author = {Doe, Jane},\n}');
+            expect(entry && getBibtexField(entry, 'author')).toBe('Doe, Jane');
+        });
+    });
+});
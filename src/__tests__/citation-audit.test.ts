@@ -0,0 +1,84 @@
+import { auditCitations, CalloutRecord, CitationRecord, createRetryableFix } from '../utils/citation-audit';
+import { CitationLink } from '../utils/citation-links';
+
+const link = (linkpath: string, blockId: string, start = 0): CitationLink => ({ linkpath, blockId, start, end: start + 10 });
+
+describe('Citation Audit', () => {
+    const blockIds = new Map([
+        ['Sermon.md', new Set(['Grudem_1994-1', 'Grudem_1994-2'])],
+        ['Talk.md', new Set(['Grudem_1994-1'])]
+    ]);
+    const callouts: CalloutRecord[] = [
+        { sourcePath: 'Sermon.md', blockId: 'Grudem_1994-1', referencePath: 'Refs/Grudem_1994.md', page: '226' },
+        { sourcePath: 'Sermon.md', blockId: 'Grudem_1994-2', referencePath: 'Refs/Grudem_1994.md', page: null },
+        { sourcePath: 'Talk.md', blockId: 'Grudem_1994-1', referencePath: 'Refs/Grudem_1994.md', page: '12' }
+    ];
+
+    it('should report nothing when the lists match the callouts', () => {
+        const citations: CitationRecord[] = callouts.map((c, i) => ({
+            referencePath: c.referencePath,
+            link: link(c.sourcePath.replace('.md', ''), c.blockId, i * 20),
+            targetPath: c.sourcePath
+        }));
+        expect(auditCitations(callouts, citations, blockIds)).toEqual([]);
+    });
+
+    it('should report missing, dead and duplicate backlinks', () => {
+        const citations: CitationRecord[] = [
+            { referencePath: 'Refs/Grudem_1994.md', link: link('Sermon', 'Grudem_1994-1'), targetPath: 'Sermon.md' },
+            { referencePath: 'Refs/Grudem_1994.md', link: link('Sermon', 'Grudem_1994-1', 20), targetPath: 'Sermon.md' },
+            { referencePath: 'Refs/Grudem_1994.md', link: link('Sermon', 'Grudem_1994-9', 40), targetPath: 'Sermon.md' },
+            { referencePath: 'Refs/Grudem_1994.md', link: link('Deleted', 'Grudem_1994-1', 60), targetPath: null },
+            { referencePath: 'Refs/Grudem_1994.md', link: link('Talk', 'Grudem_1994-1', 80), targetPath: 'Talk.md' }
+        ];
+
+        const issues = auditCitations(callouts, citations, blockIds);
+        expect(issues.map(issue => [issue.kind, issue.sourcePath, issue.blockId, issue.link?.start ?? null])).toEqual([
+            ['duplicate', 'Sermon.md', 'Grudem_1994-1', 20],
+            ['dead', 'Sermon.md', 'Grudem_1994-9', 40],
+            ['dead', null, 'Grudem_1994-1', 60],
+            ['missing', 'Sermon.md', 'Grudem_1994-2', null]
+        ]);
+    });
+});
+
+describe('createRetryableFix', () => {
+    it('should allow a retry after the fix reports failure', async () => {
+        const results = [false, true];
+        const run = jest.fn(() => Promise.resolve(results.shift() ?? false));
+        const outcomes: string[] = [];
+        const fix = createRetryableFix(run, () => outcomes.push('start'), outcome => outcomes.push(outcome));
+
+        expect(await fix()).toBe(false);
+        expect(await fix()).toBe(true);
+        expect(await fix()).toBe(true);
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(outcomes).toEqual(['start', 'failed', 'start', 'fixed']);
+    });
+
+    it('should allow a retry after the fix throws', async () => {
+        const run = jest.fn()
+            .mockRejectedValueOnce(new Error('File is gone'))
+            .mockResolvedValueOnce(true);
+        const outcomes: string[] = [];
+        const fix = createRetryableFix(run, () => undefined, (outcome, error) => {
+            outcomes.push(error instanceof Error ? `${outcome}: ${error.message}` : outcome);
+        });
+
+        expect(await fix()).toBe(false);
+        expect(await fix()).toBe(true);
+        expect(outcomes).toEqual(['error: File is gone', 'fixed']);
+    });
+
+    it('should not run again while a fix is in progress', async () => {
+        let finish: (ok: boolean) => void = () => undefined;
+        const run = jest.fn(() => new Promise<boolean>(resolve => { finish = resolve; }));
+        const fix = createRetryableFix(run, () => undefined, () => undefined);
+
+        const first = fix();
+        expect(await fix()).toBe(false);
+        finish(true);
+        expect(await first).toBe(true);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+});
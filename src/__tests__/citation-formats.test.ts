@@ -0,0 +1,142 @@
+import {
+    detectCitation,
+    findRisCitations,
+    generateCiteKey
+} from '../utils/citation-formats';
+import { getBibtexField, parseBibtexEntry } from '../utils/bibtex-parser';
+
+const RIS = `TY  - BOOK
+AU  - Grudem, Wayne A.
+TI  - Systematic Theology: An Introduction to Biblical Doctrine
+CY  - Leicester, England; Grand Rapids, MI
+PB  - Inter-Varsity Press; Zondervan Pub. House
+PY  - 2004
+SP  - 1009
+EP  - 1010
+ER  - `;
+
+function fieldsOf(bibtex: string | undefined): Record<string, string | null> {
+    const entry = parseBibtexEntry(bibtex ?? '');
+    if (!entry) return {};
+    return Object.fromEntries(entry.fields.map(f => [f.name, getBibtexField(entry, f.name)]));
+}
+
+describe('Citation Formats', () => {
+    describe('findRisCitations', () => {
+        it('should convert an RIS block to BibTeX', () => {
+            const [citation] = findRisCitations(`A quote.\n\n${RIS}`);
+
+            expect(citation.format).toBe('ris');
+            expect(citation.start).toBe(10);
+            expect(citation.page).toBe('1009–1010');
+            expect(parseBibtexEntry(citation.bibtex)?.key).toBe('Grudem_2004');
+            expect(fieldsOf(citation.bibtex)).toMatchObject({
+                title: 'Systematic Theology: An Introduction to Biblical Doctrine',
+                author: 'Grudem, Wayne A.',
+                place: 'Leicester, England; Grand Rapids, MI',
+                publisher: 'Inter-Varsity Press; Zondervan Pub. House',
+                year: '2004'
+            });
+        });
+
+        it('should map journal articles', () => {
+            const ris = 'TY  - JOUR\nAU  - Carson, D. A.\nTI  - The Function of the Paraclete\nJO  - Journal of Biblical Literature\nVL  - 98\nPY  - 1979\nER  - ';
+            const [citation] = findRisCitations(ris);
+
+            expect(citation.bibtex.startsWith('@article{Carson_1979,')).toBe(true);
+            expect(fieldsOf(citation.bibtex).journal).toBe('Journal of Biblical Literature');
+        });
+
+        it('should find several blocks', () => {
+            expect(findRisCitations(`${RIS}\n\n${RIS}`)).toHaveLength(2);
+        });
+    });
+
+    describe('detectCitation', () => {
+        it('should detect an SBL or Chicago footnote', () => {
+            const text = 'A quote.\n\nWayne A. Grudem, Systematic Theology: An Introduction to Biblical Doctrine (Leicester, England; Grand Rapids, MI: Inter-Varsity Press; Zondervan Pub. House, 2004), 1009.';
+            const citation = detectCitation(text);
+
+            expect(citation?.format).toBe('footnote');
+            expect(citation?.start).toBe(10);
+            expect(citation?.page).toBe('1009');
+            expect(fieldsOf(citation?.bibtex)).toMatchObject({
+                title: 'Systematic Theology: An Introduction to Biblical Doctrine',
+                author: 'Grudem, Wayne A.',
+                place: 'Leicester, England; Grand Rapids, MI',
+                publisher: 'Inter-Varsity Press; Zondervan Pub. House',
+                year: '2004'
+            });
+        });
+
+        it('should detect footnotes with several authors', () => {
+            const citation = detectCitation('Bruce K. Waltke and Charles Yu, An Old Testament Theology: An Exegetical, Canonical, and Thematic Approach (Grand Rapids, MI: Zondervan, 2007), 254.');
+
+            expect(parseBibtexEntry(citation?.bibtex ?? '')?.key).toBe('Waltke_Yu_2007');
+            expect(fieldsOf(citation?.bibtex).author).toBe('Waltke, Bruce K. and Yu, Charles');
+            expect(fieldsOf(citation?.bibtex).title).toBe('An Old Testament Theology: An Exegetical, Canonical, and Thematic Approach');
+        });
+
+        it('should detect SBL journal article footnotes', () => {
+            const citation = detectCitation('D. A. Carson, “The Function of the Paraclete in John 16:7–11,” Journal of Biblical Literature 98, no. 4 (1979): 547–566.');
+
+            expect(citation?.format).toBe('footnote');
+            expect(citation?.page).toBe('547–566');
+            expect(fieldsOf(citation?.bibtex)).toMatchObject({
+                title: 'The Function of the Paraclete in John 16:7–11',
+                journal: 'Journal of Biblical Literature',
+                volume: '98',
+                number: '4',
+                year: '1979'
+            });
+        });
+
+        it('should detect a Chicago bibliography entry', () => {
+            const citation = detectCitation('Quote.\nGrudem, Wayne A. Systematic Theology: An Introduction to Biblical Doctrine. Leicester, England; Grand Rapids, MI: Inter-Varsity Press; Zondervan Pub. House, 2004.');
+
+            expect(citation?.format).toBe('bibliography');
+            expect(citation?.page).toBeNull();
+            expect(fieldsOf(citation?.bibtex)).toMatchObject({
+                author: 'Grudem, Wayne A.',
+                publisher: 'Inter-Varsity Press; Zondervan Pub. House',
+                year: '2004'
+            });
+        });
+
+        it('should detect an MLA entry', () => {
+            const citation = detectCitation('Waltke, Bruce K., and Charles Yu. An Old Testament Theology. Grand Rapids, MI: Zondervan, 2007. Print.');
+
+            expect(citation?.format).toBe('bibliography');
+            expect(fieldsOf(citation?.bibtex).author).toBe('Waltke, Bruce K. and Yu, Charles');
+            expect(fieldsOf(citation?.bibtex).title).toBe('An Old Testament Theology');
+        });
+
+        it('should detect an APA entry', () => {
+            const citation = detectCitation('Grudem, W. A. (2004). Systematic theology: an introduction to biblical doctrine (p. 1009). Leicester, England; Grand Rapids, MI: Inter-Varsity Press; Zondervan Pub. House.');
+
+            expect(citation?.format).toBe('apa');
+            expect(citation?.page).toBe('1009');
+            expect(fieldsOf(citation?.bibtex)).toMatchObject({
+                title: 'Systematic theology: an introduction to biblical doctrine',
+                author: 'Grudem, W. A.',
+                place: 'Leicester, England; Grand Rapids, MI',
+                year: '2004'
+            });
+        });
+
+        it('should not treat ordinary prose as a citation', () => {
+            expect(detectCitation('For God so loved the world, that he gave his only Son.')).toBeNull();
+            expect(detectCitation('The meeting (room 5, 2024) is at noon.')).toBeNull();
+        });
+    });
+
+    describe('generateCiteKey', () => {
+        it('should join up to two last names and the year', () => {
+            expect(generateCiteKey(['Waltke, Bruce K.', 'Yu, Charles', 'Other, A.'], '2007', null)).toBe('Waltke_Yu_2007');
+        });
+
+        it('should fall back to a title word without authors', () => {
+            expect(generateCiteKey([], '1990', 'The Didache')).toBe('Didache_1990');
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import {
+    findBlockIds,
+    findCitationLinks,
+    getNextBlockNumber,
+    linkpathMatches,
+    pruneCitationLinks,
+    renameCitationLinks
+} from '../utils/citation-links';
+
+const REFERENCE_NOTE = [
+    '```bibtex',
+    '@book{Grudem_1994, title = {Systematic Theology}}',
+    '```',
+    '',
+    '## Citations',
+    '- [[Sermon#^Grudem_1994-1]] → p. 226',
+    '- [[Sermons/Grace#^Grudem_1994-2]]',
+    '- [[Sermon#^Grudem_1994-3|quote]] → p. 230',
+    '',
+    '## Notes',
+    'See [[Sermon#^Grudem_1994-1]] for context.'
+].join('\n');
+
+describe('Citation Links', () => {
+    describe('findCitationLinks', () => {
+        it('should only return links under the Citations heading', () => {
+            const links = findCitationLinks(REFERENCE_NOTE);
+            expect(links.map(link => [link.linkpath, link.blockId])).toEqual([
+                ['Sermon', 'Grudem_1994-1'],
+                ['Sermons/Grace', 'Grudem_1994-2'],
+                ['Sermon', 'Grudem_1994-3']
+            ]);
+            expect(REFERENCE_NOTE.slice(links[2].start, links[2].end)).toBe('[[Sermon#^Grudem_1994-3|quote]]');
+        });
+    });
+
+    describe('linkpathMatches', () => {
+        it('should match by name or by path', () => {
+            expect(linkpathMatches('Sermon', 'Notes/Sermon.md')).toBe(true);
+            expect(linkpathMatches('notes/sermon.md', 'Notes/Sermon.md')).toBe(true);
+            expect(linkpathMatches('Sermon', 'Notes/Sermon notes.md')).toBe(false);
+        });
+    });
+
+    describe('renameCitationLinks', () => {
+        it('should rewrite links to block IDs in the renamed note', () => {
+            const updated = renameCitationLinks(REFERENCE_NOTE, 'Sermon.md', 'Grace sermon', ['Grudem_1994-1', 'Grudem_1994-3']);
+            expect(updated).toContain('- [[Grace sermon#^Grudem_1994-1]] → p. 226');
+            expect(updated).toContain('- [[Grace sermon#^Grudem_1994-3|quote]] → p. 230');
+            expect(updated).toContain('- [[Sermons/Grace#^Grudem_1994-2]]');
+            // Links outside the Citations section are left to Obsidian
+            expect(updated).toContain('See [[Sermon#^Grudem_1994-1]] for context.');
+        });
+
+        it('should leave links to a same-named note alone', () => {
+            expect(renameCitationLinks(REFERENCE_NOTE, 'Other/Sermon.md', 'Talk', ['Other-1'])).toBe(REFERENCE_NOTE);
+        });
+    });
+
+    describe('pruneCitationLinks', () => {
+        it('should remove the list items with dead links', () => {
+            const { content, removed } = pruneCitationLinks(REFERENCE_NOTE, link => link.linkpath === 'Sermon');
+            expect(removed).toBe(2);
+            expect(content).toContain('## Citations\n- [[Sermons/Grace#^Grudem_1994-2]]\n\n## Notes');
+        });
+
+        it('should return the note unchanged when nothing is dead', () => {
+            expect(pruneCitationLinks(REFERENCE_NOTE, () => false)).toEqual({ content: REFERENCE_NOTE, removed: 0 });
+        });
+    });
+
+    describe('block IDs', () => {
+        const note = '> [!logos] Logos Reference\n> Quote\n> [[Grudem_1994|Grudem_1994]] ^Grudem_1994-4\n\nText ^my-block\n';
+
+        it('should find block IDs at the end of lines', () => {
+            expect(findBlockIds(note)).toEqual(['Grudem_1994-4', 'my-block']);
+        });
+
+        it('should continue after the highest ID in the note or the stored counter', () => {
+            expect(getNextBlockNumber(note)).toBe(5);
+            expect(getNextBlockNumber(note, 7)).toBe(8);
+            expect(getNextBlockNumber('', undefined)).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,41 @@
+import { applyCitationFields, getCitationFields } from '../utils/citation-review';
+import { ParsedClipboard } from '../utils/clipboard-parser';
+
+const CITATION: ParsedClipboard = {
+    mainText: 'The doctrine of the Trinity is one of the most important doctrines.',
+    bibtex: '@book{Grudem_1994, title={Systematic Theolgy}, author={Grudem, Wayne A.}, year={1994}, }',
+    page: '2266',
+    reflyLink: null
+};
+
+describe('Citation Review', () => {
+    describe('getCitationFields', () => {
+        it('should read the editable fields', () => {
+            expect(getCitationFields(CITATION)).toEqual({
+                quote: CITATION.mainText,
+                citeKey: 'Grudem_1994',
+                title: 'Systematic Theolgy',
+                page: '2266',
+                reflyLink: ''
+            });
+        });
+    });
+
+    describe('applyCitationFields', () => {
+        it('should write corrections into the citation and its bibtex', () => {
+            const fields = { ...getCitationFields(CITATION), citeKey: 'Grudem1994', title: 'Systematic Theology', page: '226', reflyLink: ' https://ref.ly/logosres/systhe ' };
+            const result = applyCitationFields(CITATION, fields);
+
+            expect(result.bibtex).toBe('@book{Grudem1994, title={Systematic Theology}, author={Grudem, Wayne A.}, year={1994}, }');
+            expect(result.page).toBe('226');
+            expect(result.reflyLink).toBe('https://ref.ly/logosres/systhe');
+            expect(CITATION.page).toBe('2266');
+        });
+
+        it('should leave the bibtex alone when nothing changed', () => {
+            const result = applyCitationFields(CITATION, { ...getCitationFields(CITATION), page: '' });
+            expect(result.bibtex).toBe(CITATION.bibtex);
+            expect(result.page).toBeNull();
+        });
+    });
+});
@@ -1,10 +1,10 @@
 import {
     parseLogosClipboard,
+    parseLogosClipboardBatch,
     extractCiteKey,
     extractPageNumber,
     extractPagesFromBibtex,
-    extractBookTitle,
-    cleanFormattedText
+    extractBookTitle
 } from '../utils/clipboard-parser';
 
 describe('Clipboard Parser', () => {
@@ -118,6 +118,111 @@ title={[An Old Testament theology](https://ref.ly/logosres/ottheowaltke?ref=Page
 
             expect(result.reflyLink).toBe('https://ref.ly/logosres/ottheowaltke?ref=Page.p+254&off=1560');
         });
+
+        it('should parse a single-line Logos export and drop only the pages field', () => {
+            const clipboard = `In the beginning was the Word.
+@book{Grudem_1994, title={Systematic Theology}, author={Grudem, Wayne A.}, year={1994}, pages={1009–1010} }`;
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.page).toBe('1009–1010');
+            expect(result.bibtex).toBe('@book{Grudem_1994, title={Systematic Theology}, author={Grudem, Wayne A.}, year={1994}, }');
+            expect(result.entry?.key).toBe('Grudem_1994');
+        });
+
+        it('should convert an SBL citation to BibTeX', () => {
+            const clipboard = `This is a quote from the book.
+
+Wayne A. Grudem, Systematic Theology (Grand Rapids, MI: Zondervan, 2004), 1009.`;
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.format).toBe('footnote');
+            expect(result.mainText).toBe('This is a quote from the book.');
+            expect(result.page).toBe('1009');
+            expect(extractCiteKey(result.bibtex)).toBe('Grudem-2004');
+            expect(extractBookTitle(result.bibtex)).toBe('Systematic Theology');
+            expect(result.bibtex).not.toContain('pages');
+        });
+
+        it('should convert an RIS block to BibTeX', () => {
+            const clipboard = `Quote text
+TY  - BOOK
+AU  - Doe, Jane
+TI  - Biblical Studies
+PY  - 2021
+SP  - 42
+ER  - `;
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.format).toBe('ris');
+            expect(result.mainText).toBe('Quote text');
+            expect(result.page).toBe('42');
+            expect(result.entry?.key).toBe('Doe_2021');
+        });
+
+        it('should report BibTeX as the format for BibTeX clipboards', () => {
+            expect(parseLogosClipboard('Quote\n@book{a, title={b}}').format).toBe('bibtex');
+        });
+
+        it('should ignore text after the BibTeX entry', () => {
+            const clipboard = `Quote text
+@book{smith2020, title = {Test}, pages = {5}}
+trailing text`;
+            const result = parseLogosClipboard(clipboard);
+
+            expect(result.bibtex).toBe('@book{smith2020, title = {Test}, }');
+            expect(result.page).toBe('5');
+        });
+    });
+
+    describe('parseLogosClipboardBatch', () => {
+        it('should split several quote and BibTeX pairs', () => {
+            const clipboard = `First quote (Resource Link: https://ref.ly/logosres/a)
+@book{smith2020, title = {First Book}, pages = {12}}
+
+Second quote
+over two lines.
+@book{doe2021,
+  title = {Second Book},
+  pages = {34},
+}`;
+            const result = parseLogosClipboardBatch(clipboard);
+
+            expect(result).toHaveLength(2);
+            expect(result[0].mainText).toBe('First quote');
+            expect(result[0].reflyLink).toBe('https://ref.ly/logosres/a');
+            expect(result[0].page).toBe('12');
+            expect(result[0].entry?.key).toBe('smith2020');
+            expect(result[1].mainText).toBe('Second quote\nover two lines.');
+            expect(result[1].reflyLink).toBeNull();
+            expect(result[1].page).toBe('34');
+            expect(result[1].bibtex).toContain('@book{doe2021');
+        });
+
+        it('should return a single citation for a normal clipboard', () => {
+            const clipboard = `Quote text
+@book{smith2020, title = {Test}}`;
+            const result = parseLogosClipboardBatch(clipboard);
+
+            expect(result).toHaveLength(1);
+            expect(result[0]).toEqual(parseLogosClipboard(clipboard));
+        });
+
+        it('should return the text without BibTeX when no entry is found', () => {
+            const result = parseLogosClipboardBatch('Just text');
+
+            expect(result).toHaveLength(1);
+            expect(result[0].bibtex).toBe('');
+            expect(result[0].mainText).toBe('Just text');
+        });
+
+        it('should not split on an @ inside the quote', () => {
+            const clipboard = `Write to me@home{x, y} today.
+@book{smith2020, title = {Test}}`;
+            const result = parseLogosClipboardBatch(clipboard);
+
+            expect(result).toHaveLength(1);
+            expect(result[0].mainText).toBe('Write to me@home{x, y} today.');
+        });
     });
 
     describe('extractCiteKey', () => {
@@ -185,31 +290,14 @@ title={[An Old Testament theology](https://ref.ly/logosres/ottheowaltke?ref=Page
             expect(extractBookTitle(bibtex)).toBe('Systematic Theology: An Introduction');
         });
 
+        it('should keep text inside nested braces', () => {
+            const bibtex = "@book{test, title = {The {Lord's} Supper}}";
+            expect(extractBookTitle(bibtex)).toBe("The Lord's Supper");
+        });
+
         it('should return null when no title field', () => {
             const bibtex = '@misc{test, author = {Someone}}';
             expect(extractBookTitle(bibtex)).toBeNull();
         });
     });
-
-    describe('cleanFormattedText', () => {
-        it('should convert single underscores to asterisks', () => {
-            const input = 'This is _italic_ text.';
-            expect(cleanFormattedText(input)).toBe('This is *italic* text.');
-        });
-
-        it('should convert double underscores to superscripts', () => {
-            const input = 'This is __bold__ text.';
-            expect(cleanFormattedText(input)).toBe('This is <sup>bold</sup> text.');
-        });
-
-        it('should leave double asterisks as they are', () => {
-            const input = 'This is **bold** text.';
-            expect(cleanFormattedText(input)).toBe('This is **bold** text.');
-        });
-
-        it('should handle multiple formats in one string', () => {
-            const input = 'The _quick_ brown fox __jumps__ over the **lazy** dog.';
-            expect(cleanFormattedText(input)).toBe('The *quick* brown fox <sup>jumps</sup> over the **lazy** dog.');
-        });
-    });
 });
@@ -1,7 +1,8 @@
 import {
     sanitizeNoteName,
     generateNotePath,
-    generateMetadataFrontmatter
+    generateMetadataFrontmatter,
+    getReferenceNoteName
 } from '../utils/file-utils';
 
 describe('File Utils', () => {
@@ -22,6 +23,10 @@ describe('File Utils', () => {
             expect(sanitizeNoteName('Book: Title/Subtitle\\Name')).toBe('Book TitleSubtitleName');
         });
 
+        it('should remove the other characters Obsidian does not allow in file names', () => {
+            expect(sanitizeNoteName('Why Grace? "Amazing" <Grace> * 2 | More')).toBe('Why Grace Amazing Grace  2  More');
+        });
+
         it('should preserve other characters', () => {
             expect(sanitizeNoteName("Book's Title - 2nd Edition")).toBe("Book's Title - 2nd Edition");
         });
@@ -61,4 +66,15 @@ describe('File Utils', () => {
             expect(result).toMatch(/---\n\n$/);
         });
     });
+    describe('getReferenceNoteName', () => {
+        it('should use the cite key, or the book title when that setting is on', () => {
+            expect(getReferenceNoteName('Grudem_1994', 'Systematic Theology', false)).toBe('Grudem_1994');
+            expect(getReferenceNoteName('Grudem_1994', 'Systematic Theology', true)).toBe('Systematic Theology - References');
+            expect(getReferenceNoteName('Grudem_1994', null, true)).toBe('Grudem_1994');
+        });
+
+        it('should sanitize the name', () => {
+            expect(getReferenceNoteName('Key', 'Romans: A Commentary', true)).toBe('Romans A Commentary - References');
+        });
+    });
 });
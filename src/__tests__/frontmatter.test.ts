@@ -0,0 +1,81 @@
+import { parseBibtexEntry } from '../utils/bibtex-parser';
+import { formatYamlFrontmatter, formatYamlScalar, getMetadataValues, MetadataFieldMapping } from '../utils/frontmatter';
+import { generateMetadataFrontmatter } from '../utils/file-utils';
+
+const WALTKE = parseBibtexEntry(`@book{Waltke_Yu_2007,
+  author = {Waltke, Bruce K. and Yu, Charles},
+  title = {An Old Testament Theology: An Exegetical, Canonical, and Thematic Approach},
+  address = {Grand Rapids, MI},
+  publisher = {Zondervan},
+  date = {2007}
+}`);
+
+const MAPPINGS: Record<string, MetadataFieldMapping> = {
+    authors: { source: 'author', type: 'list', defaultValue: '' },
+    author: { source: 'author', type: 'text', defaultValue: '' },
+    year: { source: 'year', type: 'text', defaultValue: '' },
+    published: { source: 'date', type: 'date', defaultValue: '' },
+    publisher: { source: 'publisher', type: 'text', defaultValue: '' },
+    place: { source: '{{address}}: {{publisher}}', type: 'text', defaultValue: '' },
+    status: { source: '', type: 'text', defaultValue: 'to read' },
+    tags: { source: 'keywords', type: 'list', defaultValue: 'theology, old testament' }
+};
+
+describe('Frontmatter', () => {
+    describe('getMetadataValues', () => {
+        it('should fill each field from its BibTeX source in order', () => {
+            const fields = Object.keys(MAPPINGS).concat('notes');
+            expect(getMetadataValues(fields, MAPPINGS, WALTKE)).toEqual([
+                ['authors', ['Bruce K. Waltke', 'Charles Yu']],
+                ['author', 'Bruce K. Waltke and Charles Yu'],
+                ['year', '2007'],
+                ['published', '2007-01-01'],
+                ['publisher', 'Zondervan'],
+                ['place', 'Grand Rapids, MI: Zondervan'],
+                ['status', 'to read'],
+                ['tags', ['theology', 'old testament']],
+                ['notes', null]
+            ]);
+        });
+
+        it('should fall back to defaults without an entry', () => {
+            expect(getMetadataValues(['publisher', 'status'], MAPPINGS, null)).toEqual([
+                ['publisher', null],
+                ['status', 'to read']
+            ]);
+        });
+    });
+
+    describe('formatYamlScalar', () => {
+        it('should leave plain text unquoted', () => {
+            expect(formatYamlScalar('Zondervan')).toBe('Zondervan');
+            expect(formatYamlScalar('Grand Rapids, MI')).toBe('Grand Rapids, MI');
+            expect(formatYamlScalar('2007-01-01')).toBe('2007-01-01');
+        });
+
+        it('should quote text YAML would misread', () => {
+            expect(formatYamlScalar('An Old Testament Theology: An Exegetical Approach'))
+                .toBe('"An Old Testament Theology: An Exegetical Approach"');
+            expect(formatYamlScalar('2007')).toBe('"2007"');
+            expect(formatYamlScalar('yes')).toBe('"yes"');
+            expect(formatYamlScalar('[draft]')).toBe('"[draft]"');
+            expect(formatYamlScalar('#theology')).toBe('"#theology"');
+            expect(formatYamlScalar('Say "hi" \\ bye:')).toBe('"Say \\"hi\\" \\\\ bye:"');
+        });
+    });
+
+    describe('formatYamlFrontmatter', () => {
+        it('should write lists as block sequences and leave empty values blank', () => {
+            expect(formatYamlFrontmatter([
+                ['author', ['Bruce K. Waltke', 'Charles Yu']],
+                ['year', '2007'],
+                ['related notes', null]
+            ])).toBe('---\nauthor:\n  - Bruce K. Waltke\n  - Charles Yu\nyear: "2007"\nrelated notes: \n---\n\n');
+        });
+    });
+
+    it('should be used for new reference notes', () => {
+        expect(generateMetadataFrontmatter(['publisher', 'status'], MAPPINGS, WALTKE))
+            .toBe('---\npublisher: Zondervan\nstatus: to read\n---\n\n');
+    });
+});
@@ -0,0 +1,32 @@
+import { collectLinkedPaths } from '../utils/link-graph';
+
+const LINKS: Record<string, string[]> = {
+    'Chapter.md': ['Section 1.md', 'Grudem.md'],
+    'Section 1.md': ['Carson.md', 'Section 2.md', 'Chapter.md'],
+    'Section 2.md': ['Moo.md'],
+    'Grudem.md': []
+};
+
+const getLinks = (path: string) => LINKS[path] ?? [];
+
+describe('Link Graph', () => {
+    describe('collectLinkedPaths', () => {
+        it('should only follow direct links at depth 1', () => {
+            expect(collectLinkedPaths(['Chapter.md'], getLinks)).toEqual(['Section 1.md', 'Grudem.md']);
+        });
+
+        it('should follow nested links breadth first', () => {
+            expect(collectLinkedPaths(['Chapter.md'], getLinks, 3))
+                .toEqual(['Section 1.md', 'Grudem.md', 'Carson.md', 'Section 2.md', 'Chapter.md', 'Moo.md']);
+        });
+
+        it('should not revisit notes in a cycle', () => {
+            const visits: string[] = [];
+            collectLinkedPaths(['Chapter.md'], path => {
+                visits.push(path);
+                return getLinks(path);
+            }, 10);
+            expect(visits).toEqual(['Chapter.md', 'Section 1.md', 'Grudem.md', 'Carson.md', 'Section 2.md', 'Moo.md']);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { findLogosCallouts, normalizeQuoteText } from '../utils/logos-callouts';
+
+describe('Logos Callouts', () => {
+    it('should read the quote, reference link, page and block ID', () => {
+        const note = [
+            '# Sermon',
+            '',
+            '> [!logos] Logos Reference',
+            '> The doctrine of the Trinity is important.',
+            '> It gives us insight.',
+            '> ',
+            '> [Resource Link](https://ref.ly/logosres/systhe?ref=Page.p+226)',
+            '> ',
+            '> [[References/Grudem_1994.md|Grudem_1994, pp. 226-227]] ^Grudem_1994-1',
+            '',
+            'After'
+        ].join('\n');
+
+        const [callout] = findLogosCallouts(note);
+        expect(callout).toEqual({
+            start: note.indexOf('> [!logos]'),
+            end: note.indexOf('\n\nAfter'),
+            line: 2,
+            title: 'Logos Reference',
+            quote: 'The doctrine of the Trinity is important.\nIt gives us insight.',
+            referenceLink: 'References/Grudem_1994.md',
+            page: '226-227',
+            reflyLink: 'https://ref.ly/logosres/systhe?ref=Page.p+226',
+            blockId: 'Grudem_1994-1'
+        });
+    });
+
+    it('should find several callouts and a block ID on the line after', () => {
+        const note = '> [!logos]\n> One\n> [[A|A]]\n^a-1\n\n> [!LOGOS]- Quote\n> Two [[Romans 8]] here\n> [[B]] ^b-1';
+        const callouts = findLogosCallouts(note);
+        expect(callouts.map(c => [c.quote, c.referenceLink, c.blockId, c.page])).toEqual([
+            ['One', 'A', 'a-1', null],
+            ['Two [[Romans 8]] here', 'B', 'b-1', null]
+        ]);
+    });
+
+    it('should skip callouts inside code blocks and ordinary blockquotes', () => {
+        const note = '```\n> [!logos]\n> Example\n```\n\n> [!note]\n> Not a quote';
+        expect(findLogosCallouts(note)).toEqual([]);
+    });
+
+    describe('normalizeQuoteText', () => {
+        it('should ignore formatting, links, case and punctuation', () => {
+            expect(normalizeQuoteText('*For God so loved* the world — [John 3:16](https://ref.ly/Jn3.16), [[Note|see]].'))
+                .toBe('for god so loved the world john 3 16 see');
+            expect(normalizeQuoteText('Καὶ  ὁ λόγος')).toBe(normalizeQuoteText('και ο λογος'));
+        });
+    });
+});
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseLogosClipboard } from '../utils/clipboard-parser';
+import { logosHtmlToMarkdown } from '../utils/logos-html';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'logos-html');
+
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+
+describe('Logos HTML', () => {
+    describe('logosHtmlToMarkdown', () => {
+        const cases = fs.readdirSync(FIXTURES)
+            .filter(name => name.endsWith('.html') && fs.existsSync(path.join(FIXTURES, name.replace(/\.html$/, '.md'))))
+            .map(name => name.replace(/\.html$/, ''));
+
+        it.each(cases)('should convert the %s fixture', name => {
+            expect(logosHtmlToMarkdown(fixture(`${name}.html`))).toBe(fixture(`${name}.md`).trimEnd());
+        });
+
+        it('should convert only the copied fragment', () => {
+            const html = '<html><head><title>Logos</title></head><body>Before<!--StartFragment--><b>Copied</b><!--EndFragment-->After</body></html>';
+            expect(logosHtmlToMarkdown(html)).toBe('**Copied**');
+        });
+
+        it('should ignore unclosed and stray tags', () => {
+            expect(logosHtmlToMarkdown('<p>a < b <i>and</p> c</i>')).toBe('a < b *and*\n\nc');
+        });
+
+        it('should keep links that show their own URL as plain text', () => {
+            expect(logosHtmlToMarkdown('<a href="https://ref.ly/Jn3.16;esv">https://ref.ly/Jn3.16;esv</a>')).toBe('https://ref.ly/Jn3.16;esv');
+        });
+    });
+
+    it('should leave the citation for the clipboard parser', () => {
+        const parsed = parseLogosClipboard(logosHtmlToMarkdown(fixture('with-citation.html')));
+        expect(parsed.mainText).toBe('The *imago Dei* is not lost in the fall.');
+        expect(parsed.entry?.key).toBe('Grudem_1994');
+        expect(parsed.page).toBe('444');
+    });
+});
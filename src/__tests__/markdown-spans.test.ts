@@ -0,0 +1,81 @@
+import { findProtectedSpans, maskProtectedSpans } from '../utils/markdown-spans';
+
+function kinds(text: string): string[] {
+    return findProtectedSpans(text).map(span => `${span.kind}:${text.slice(span.start, span.end)}`);
+}
+
+describe('Markdown Spans', () => {
+    describe('findProtectedSpans', () => {
+        it('should find Markdown links and images', () => {
+            expect(kinds('See [John 3:16](https://ref.ly/Jn3.16;esv) and ![img](a.png)')).toEqual([
+                'link:[John 3:16](https://ref.ly/Jn3.16;esv)',
+                'link:![img](a.png)'
+            ]);
+        });
+
+        it('should find reference links, definitions and footnotes', () => {
+            expect(kinds('A [link][1] here[^2]\n[1]: https://example.com')).toEqual([
+                'link:[link][1]',
+                'link:[^2]',
+                'link:[1]: https://example.com'
+            ]);
+        });
+
+        it('should find bare URLs and autolinks', () => {
+            expect(kinds('Go to https://ref.ly/Jn3.16;esv or <https://example.com/a>')).toEqual([
+                'url:https://ref.ly/Jn3.16;esv',
+                'url:<https://example.com/a>'
+            ]);
+        });
+
+        it('should find inline code and fenced code blocks', () => {
+            const text = 'Use `John 3:16` here\n```\nRom 8:1\n```\nafter';
+            expect(kinds(text)).toEqual([
+                'inline-code:`John 3:16`',
+                'code-block:```\nRom 8:1\n```'
+            ]);
+        });
+
+        it('should find wikilinks and embeds', () => {
+            expect(kinds('[[John 3:16]] and ![[Sermon#^Jn-1]]')).toEqual([
+                'wikilink:[[John 3:16]]',
+                'wikilink:![[Sermon#^Jn-1]]'
+            ]);
+        });
+
+        it('should find block IDs at the end of a line', () => {
+            expect(kinds('> [[ref|smith]] ^smith2020-1\nnext')).toEqual([
+                'wikilink:[[ref|smith]]',
+                'block-id: ^smith2020-1'
+            ]);
+        });
+
+        it('should find HTML tags but not the text between them', () => {
+            expect(kinds('<span title="John 3:16">Rom 8:1</span>')).toEqual([
+                'html:<span title="John 3:16">',
+                'html:</span>'
+            ]);
+        });
+
+        it('should find comments, math blocks and frontmatter', () => {
+            const text = '---\nverse: John 3:16\n---\nText %%Rom 8:1%% <!-- Ps 23 --> $$x$$';
+            expect(findProtectedSpans(text).map(span => span.kind)).toEqual(['frontmatter', 'comment', 'comment', 'math-block']);
+        });
+
+        it('should not report URLs that sit inside code', () => {
+            expect(findProtectedSpans('`https://ref.ly/Jn3.16`').map(span => span.kind)).toEqual(['inline-code']);
+        });
+    });
+
+    describe('maskProtectedSpans', () => {
+        it('should keep offsets and line breaks', () => {
+            const text = 'A `b\nc` d';
+            const masked = maskProtectedSpans(text);
+
+            expect(masked).toHaveLength(text.length);
+            expect(masked.startsWith('A ')).toBe(true);
+            expect(masked.endsWith(' d')).toBe(true);
+            expect(masked.split('\n')).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { convertNoteForPandoc, findPandocCiteKeys, findPandocExportConflict, formatFootnoteDefinition, formatPandocCitation, getNextFootnoteNumber, isPandocExport, setPandocBibliography } from '../utils/pandoc';
+
+describe('Pandoc', () => {
+    describe('formatPandocCitation', () => {
+        it('should add the page as a locator', () => {
+            expect(formatPandocCitation('Grudem-1994', '226')).toBe('[@Grudem-1994, 226]');
+            expect(formatPandocCitation('Grudem-1994', null)).toBe('[@Grudem-1994]');
+        });
+    });
+
+    describe('getNextFootnoteNumber', () => {
+        it('should continue after the highest numbered footnote', () => {
+            expect(getNextFootnoteNumber('No notes')).toBe(1);
+            expect(getNextFootnoteNumber('One[^1] and three[^3] and a name[^note]\n\n[^1]: First')).toBe(4);
+        });
+    });
+
+    describe('formatFootnoteDefinition', () => {
+        it('should append the page to the reference', () => {
+            expect(formatFootnoteDefinition(2, 'Grudem, Wayne. *Systematic Theology*. Grand Rapids: Zondervan, 1994.', 'p. 226'))
+                .toBe('[^2]: Grudem, Wayne. *Systematic Theology*. Grand Rapids: Zondervan, 1994, p. 226.');
+            expect(formatFootnoteDefinition(1, 'Grudem, Wayne. *Systematic Theology*.', null))
+                .toBe('[^1]: Grudem, Wayne. *Systematic Theology*.');
+        });
+    });
+
+    describe('convertNoteForPandoc', () => {
+        const NOTE = [
+            '# Sermon',
+            '',
+            'See [John 3:16](https://ref.ly/logosref/Bible.Jn3.16) first. ^intro',
+            '',
+            '> [!logos] Logos Reference',
+            '> God so loved [John 3:16](https://ref.ly/logosref/Bible.Jn3.16)',
+            '> the world.',
+            '> [[References/Grudem_1994.md|Grudem_1994, p. 226]] ^Grudem-1994-1',
+            '',
+            '> [!logos] Logos Reference',
+            '> Unknown source.',
+            '> [[Missing|Missing, p. 1]] ^Missing-1',
+            '',
+            'As argued elsewhere [@Moo-1996, 12; see @Carson-1984].',
+            '',
+            '```',
+            'Not a citation [@Code-2000] ^code',
+            '```'
+        ].join('\n');
+
+        it('should turn callouts into blockquotes with citations', () => {
+            const keys: Record<string, string> = { 'References/Grudem_1994.md': 'Grudem-1994' };
+            const result = convertNoteForPandoc(NOTE, link => keys[link] ?? null);
+
+            expect(result.content).toBe([
+                '# Sermon',
+                '',
+                'See John 3:16 first.',
+                '',
+                '> God so loved John 3:16',
+                '> the world.',
+                '> [@Grudem-1994, 226]',
+                '',
+                '> Unknown source.',
+                '',
+                'As argued elsewhere [@Moo-1996, 12; see @Carson-1984].',
+                '',
+                '```',
+                'Not a citation [@Code-2000] ^code',
+                '```'
+            ].join('\n'));
+            expect(result.citeKeys).toEqual(['Grudem-1994', 'Moo-1996', 'Carson-1984']);
+        });
+    });
+
+    describe('findPandocCiteKeys', () => {
+        it('should ignore email addresses and trailing punctuation', () => {
+            expect(findPandocCiteKeys('Mail me@example.com [see @Wright-1978: 61].')).toEqual(['Wright-1978']);
+        });
+    });
+
+    describe('setPandocBibliography', () => {
+        it('should add or replace the bibliography property', () => {
+            expect(setPandocBibliography('# Paper', 'Paper.bib')).toBe('---\nbibliography: Paper.bib\n---\n\n# Paper');
+            expect(setPandocBibliography('---\ntags: draft\n---\n# Paper', 'My paper.bib'))
+                .toBe('---\ntags: draft\nbibliography: My paper.bib\n---\n# Paper');
+            expect(setPandocBibliography('---\nbibliography: old.bib\n---\n# Paper', 'Paper.bib'))
+                .toBe('---\nbibliography: Paper.bib\n---\n# Paper');
+        });
+    });
+
+    describe('isPandocExport', () => {
+        it('should recognize an earlier export of the note', () => {
+            const exported = setPandocBibliography('# Paper', 'Paper.bib');
+            expect(isPandocExport(exported, 'Paper.bib')).toBe(true);
+            expect(isPandocExport(setPandocBibliography('# Paper', 'My paper.bib'), 'My paper.bib')).toBe(true);
+        });
+
+        it('should not let the export overwrite another note with the same name', () => {
+            expect(isPandocExport('# Notes on the paper', 'Paper.bib')).toBe(false);
+            expect(isPandocExport('---\ntags: draft\n---\n# Paper', 'Paper.bib')).toBe(false);
+            expect(isPandocExport('---\nbibliography: Other.bib\n---\n# Paper', 'Paper.bib')).toBe(false);
+        });
+    });
+
+    describe('findPandocExportConflict', () => {
+        it('should allow a first export and replacing an earlier one', () => {
+            expect(findPandocExportConflict(null, false, 'Paper.bib')).toBeNull();
+            expect(findPandocExportConflict(setPandocBibliography('# Paper', 'Paper.bib'), true, 'Paper.bib')).toBeNull();
+        });
+
+        it('should not overwrite a note or .bib file the export did not write', () => {
+            expect(findPandocExportConflict('# Notes on the paper', true, 'Paper.bib')).toBe('markdown');
+            expect(findPandocExportConflict(null, true, 'Paper.bib')).toBe('bib');
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { getNextBlockNumber } from '../utils/citation-links';
+import { removePastedText, removeQuoteBlock, restoreBlockCounter, withBlockCounterRollback } from '../utils/paste-undo';
+
+const CALLOUT = '> [!logos] Logos Reference\n> Quote\n> [[Grudem_1994|Grudem_1994, p. 226]] ^Grudem-1994-1\n';
+
+describe('Paste Undo', () => {
+    describe('removePastedText', () => {
+        it('should remove the inserted text when it is unchanged', () => {
+            expect(removePastedText(`# Sermon\n\n${CALLOUT}More`, CALLOUT, ['Grudem-1994-1'])).toBe('# Sermon\n\nMore');
+        });
+
+        it('should remove the quote blocks by ID when the text was edited', () => {
+            const edited = `# Sermon\n\n${CALLOUT.replace('Quote', 'Edited quote')}\nMore`;
+            expect(removePastedText(edited, CALLOUT, ['Grudem-1994-1'])).toBe('# Sermon\n\nMore');
+        });
+
+        it('should remove the footnote definitions it added', () => {
+            const pasted = '> Quote[^2] ^Grudem-1994-2\n';
+            const content = `Text[^1]\n\n${pasted}\n[^1]: First.\n[^2]: Grudem, Wayne. *Systematic Theology*, p. 226.\n`;
+            expect(removePastedText(content, pasted, ['Grudem-1994-2'], ['[^2]: Grudem, Wayne. *Systematic Theology*, p. 226.']))
+                .toBe('Text[^1]\n\n\n[^1]: First.\n');
+        });
+    });
+
+    describe('removeQuoteBlock', () => {
+        it('should leave the note alone when the block ID is missing', () => {
+            expect(removeQuoteBlock(CALLOUT, 'Other-1')).toBe(CALLOUT);
+        });
+    });
+
+    describe('withBlockCounterRollback', () => {
+        const reserve = (counters: Record<string, number>, content: string) => {
+            counters['Sermon.md'] = getNextBlockNumber(content, counters['Sermon.md']);
+            return counters['Sermon.md'];
+        };
+
+        it('should release the numbers reserved before a citation that fails', async () => {
+            const counters: Record<string, number> = { 'Sermon.md': 3 };
+            const citations = ['First', 'Second', 'Third'];
+            const run = withBlockCounterRollback(counters, 'Sermon.md', () => citations.map(citation => {
+                const blockNumber = reserve(counters, '');
+                if (citation === 'Second') throw new Error('Could not extract cite key');
+                return blockNumber;
+            }));
+
+            await expect(run).rejects.toThrow('Could not extract cite key');
+            expect(counters['Sermon.md']).toBe(3);
+        });
+
+        it('should remove a counter the note did not have before', async () => {
+            const counters: Record<string, number> = {};
+            await expect(withBlockCounterRollback(counters, 'Sermon.md', async () => {
+                reserve(counters, '');
+                await Promise.reject(new Error('Write failed'));
+            })).rejects.toThrow('Write failed');
+            expect(counters).toEqual({});
+        });
+
+        it('should keep the reserved numbers when every step succeeds', async () => {
+            const counters: Record<string, number> = {};
+            await expect(withBlockCounterRollback(counters, 'Sermon.md', () => [reserve(counters, ''), reserve(counters, '')])).resolves.toEqual([1, 2]);
+            expect(counters['Sermon.md']).toBe(2);
+        });
+    });
+
+    describe('restoreBlockCounter', () => {
+        it('should put the counter back or remove it', () => {
+            const counters: Record<string, number> = { 'Sermon.md': 5 };
+            restoreBlockCounter(counters, 'Sermon.md', 2);
+            expect(counters['Sermon.md']).toBe(2);
+            restoreBlockCounter(counters, 'Sermon.md', undefined);
+            expect(counters).toEqual({});
+        });
+    });
+});
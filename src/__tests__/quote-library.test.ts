@@ -0,0 +1,69 @@
+import { filterQuotes, findDuplicateQuote, QuoteLibrary, QuoteLibraryContext, sortQuotes } from '../utils/quote-library';
+
+const GRUDEM = '```bibtex\n@book{Grudem_1994,\n  author = {Grudem, Wayne},\n  title = {Systematic Theology},\n  year = {1994}\n}\n```\n\n## Citations\n';
+const CARSON = '```bibtex\n@book{Carson_1991,\n  author = {Carson, D. A.},\n  title = {The Gospel according to John},\n  date = {1991}\n}\n```\n';
+
+const context: QuoteLibraryContext = {
+    resolveLink: (linkpath) => linkpath.startsWith('Refs/') ? linkpath : null,
+    getTags: (filePath) => filePath === 'Sermons/Grace.md' ? ['#sermon'] : []
+};
+
+function buildLibrary(): QuoteLibrary {
+    const library = new QuoteLibrary();
+    library.indexFile('Refs/Grudem_1994.md', GRUDEM);
+    library.indexFile('Refs/Carson_1991.md', CARSON);
+    library.indexFile('Sermons/Grace.md', [
+        '> [!logos] Logos Reference',
+        '> Grace is God’s unmerited favor, as in Eph 2:8.',
+        '> [[Refs/Grudem_1994.md|Grudem_1994, p. 200]] ^Grudem_1994-1',
+        '',
+        '> [!logos] Logos Reference',
+        '> The Word became flesh (John 1:14).',
+        '> [[Refs/Carson_1991.md|Carson_1991, p. 126]] ^Carson_1991-2'
+    ].join('\n'), 2000);
+    library.indexFile('Study.md', '> [!logos] Logos Reference\n> Trinity doctrine.\n> [[Refs/Grudem_1994.md|Grudem_1994, p. 226]] ^Grudem_1994-1', 3000);
+    return library;
+}
+
+describe('Quote Library', () => {
+    it('should join each callout with its reference note', () => {
+        const entries = buildLibrary().getEntries(context);
+        expect(entries.map(e => [e.filePath, e.citeKey, e.title, e.author, e.year, e.callout.page, e.tags])).toEqual([
+            ['Sermons/Grace.md', 'Grudem_1994', 'Systematic Theology', 'Wayne Grudem', '1994', '200', ['#sermon']],
+            ['Sermons/Grace.md', 'Carson_1991', 'The Gospel according to John', 'D. A. Carson', '1991', '126', ['#sermon']],
+            ['Study.md', 'Grudem_1994', 'Systematic Theology', 'Wayne Grudem', '1994', '226', []]
+        ]);
+    });
+
+    it('should filter by text, author, book, tag and passage', () => {
+        const entries = buildLibrary().getEntries(context);
+        expect(filterQuotes(entries, { text: 'grace favor' }).map(e => e.callout.blockId)).toEqual(['Grudem_1994-1']);
+        expect(filterQuotes(entries, { author: 'Wayne Grudem' }).map(e => e.filePath)).toEqual(['Sermons/Grace.md', 'Study.md']);
+        expect(filterQuotes(entries, { title: 'The Gospel according to John' })).toHaveLength(1);
+        expect(filterQuotes(entries, { tag: '#sermon' })).toHaveLength(2);
+        expect(filterQuotes(entries, { passage: 'John 1' }).map(e => e.citeKey)).toEqual(['Carson_1991']);
+        expect(filterQuotes(entries, { passage: 'Ephesians 2:8-10', author: 'D. A. Carson' })).toEqual([]);
+    });
+
+    it('should sort by book, author, note or modified time', () => {
+        const entries = buildLibrary().getEntries(context);
+        expect(sortQuotes(entries, 'title').map(e => e.callout.page)).toEqual(['200', '226', '126']);
+        expect(sortQuotes(entries, 'author').map(e => e.citeKey)).toEqual(['Carson_1991', 'Grudem_1994', 'Grudem_1994']);
+        expect(sortQuotes(entries, 'modified').map(e => e.filePath)).toEqual(['Study.md', 'Sermons/Grace.md', 'Sermons/Grace.md']);
+    });
+
+    it('should follow renames and deletions', () => {
+        const library = buildLibrary();
+        library.renameFile('Study.md', 'Archive/Study.md');
+        library.removeFile('Sermons/Grace.md');
+        expect(library.getEntries(context).map(e => e.filePath)).toEqual(['Archive/Study.md']);
+    });
+
+    it('should find a quote pasted before with the same cite key and page', () => {
+        const entries = buildLibrary().getEntries(context);
+        const duplicate = findDuplicateQuote(entries, 'Carson_1991', '126', 'The *Word* became flesh (John 1:14)');
+        expect(duplicate?.callout.blockId).toBe('Carson_1991-2');
+        expect(findDuplicateQuote(entries, 'Carson_1991', '127', 'The Word became flesh (John 1:14).')).toBeNull();
+        expect(findDuplicateQuote(entries, 'Grudem_1994', '126', 'The Word became flesh (John 1:14).')).toBeNull();
+    });
+});
@@ -0,0 +1,74 @@
+import { BIBLE_BOOKS, BOOK_NAMES, BOOK_ORDER } from '../constants/bible-books';
+import { extractScriptureEntries, referenceOverlaps, ScriptureIndex } from '../utils/scripture-index';
+import { formatScriptureReference, parseScriptureReferences } from '../utils/scripture-parser';
+
+describe('Scripture Index', () => {
+    describe('extractScriptureEntries', () => {
+        it('should record the line and context of each reference', () => {
+            const entries = extractScriptureEntries('Notes/Grace.md', '# Grace\n\nSee Romans 8:28 and Eph 2:8-9.');
+            expect(entries.map(e => formatScriptureReference(e.reference))).toEqual(['Romans 8:28', 'Ephesians 2:8–9']);
+            expect(entries[0].filePath).toBe('Notes/Grace.md');
+            expect(entries[0].line).toBe(2);
+            expect(entries[0].context).toBe('See Romans 8:28 and Eph 2:8-9.');
+        });
+
+        it('should count references in links but not in code or frontmatter', () => {
+            const content = '---\nverse: John 1:1\n---\n`Gen 1:1` and [John 3:16](https://ref.ly/Jn3.16)';
+            const entries = extractScriptureEntries('a.md', content);
+            expect(entries.map(e => formatScriptureReference(e.reference))).toEqual(['John 3:16']);
+        });
+    });
+
+    describe('referenceOverlaps', () => {
+        const [reference] = parseScriptureReferences('Romans 8:28-30');
+
+        it('should match overlapping verses and whole chapters', () => {
+            expect(referenceOverlaps(reference, 'Ro', { chapter: 8, verse: 30 }, { chapter: 8, verse: 31 })).toBe(true);
+            expect(referenceOverlaps(reference, 'Ro', { chapter: 8, verse: null }, { chapter: 8, verse: null })).toBe(true);
+        });
+
+        it('should not match other verses or books', () => {
+            expect(referenceOverlaps(reference, 'Ro', { chapter: 8, verse: 31 }, { chapter: 8, verse: 39 })).toBe(false);
+            expect(referenceOverlaps(reference, 'Ga', { chapter: 8, verse: 28 }, { chapter: 8, verse: 28 })).toBe(false);
+        });
+    });
+
+    describe('ScriptureIndex', () => {
+        it('should group entries by book, chapter and verse in canonical order', () => {
+            const index = new ScriptureIndex();
+            index.indexFile('b.md', 'John 3:16 and Genesis 1:1');
+            index.indexFile('a.md', 'John 3:16 and John 3');
+
+            const tree = index.getTree();
+            expect(tree.map(b => b.name)).toEqual(['Genesis', 'John']);
+            expect(tree[1].count).toBe(3);
+            expect(tree[1].chapters[0].verses.map(v => v.verse)).toEqual([null, 16]);
+            expect(tree[1].chapters[0].verses[1].entries.map(e => e.filePath)).toEqual(['a.md', 'b.md']);
+        });
+
+        it('should follow renames and deletions', () => {
+            const index = new ScriptureIndex();
+            index.indexFile('old.md', 'Psalm 23');
+            index.indexFile('other.md', 'Psalm 23:1');
+
+            index.renameFile('old.md', 'new.md');
+            expect(index.getFileEntries('old.md')).toEqual([]);
+            expect(index.getFileEntries('new.md')[0].filePath).toBe('new.md');
+
+            index.removeFile('other.md');
+            expect(index.findPassage('Ps', { chapter: 23, verse: 1 }).map(e => e.filePath)).toEqual(['new.md']);
+        });
+
+        it('should drop a note once its references are gone', () => {
+            const index = new ScriptureIndex();
+            index.indexFile('a.md', 'Mark 1:1');
+            index.indexFile('a.md', 'No references');
+            expect(index.getEntries()).toEqual([]);
+        });
+    });
+
+    it('should name every book code', () => {
+        Object.values(BIBLE_BOOKS).forEach(code => expect(BOOK_NAMES[code]).toBeDefined());
+        expect(BOOK_ORDER).toHaveLength(66);
+    });
+});
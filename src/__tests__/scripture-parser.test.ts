@@ -0,0 +1,152 @@
+import {
+    parseScriptureReferences,
+    formatReflyReference,
+    lookupBookCode,
+    ScriptureReference
+} from '../utils/scripture-parser';
+
+function refly(text: string): string[] {
+    return parseScriptureReferences(text).map(formatReflyReference);
+}
+
+function texts(text: string): string[] {
+    return parseScriptureReferences(text).map(ref => ref.text);
+}
+
+describe('Scripture Parser', () => {
+    describe('parseScriptureReferences', () => {
+        it('should parse a single verse with its offset', () => {
+            const text = 'As it says in John 3:16, God loved the world.';
+            const [ref] = parseScriptureReferences(text);
+
+            expect(ref).toEqual<ScriptureReference>({
+                book: 'Jn',
+                start: { chapter: 3, verse: 16 },
+                end: { chapter: 3, verse: 16 },
+                text: 'John 3:16',
+                offset: 14
+            });
+        });
+
+        it('should parse verse ranges', () => {
+            expect(refly('Read Genesis 1:1-5 today.')).toEqual(['Ge1.1-5']);
+        });
+
+        it('should parse ranges across chapters', () => {
+            const [ref] = parseScriptureReferences('See John 3:16–4:2.');
+
+            expect(ref.start).toEqual({ chapter: 3, verse: 16 });
+            expect(ref.end).toEqual({ chapter: 4, verse: 2 });
+            expect(formatReflyReference(ref)).toBe('Jn3.16-4.2');
+        });
+
+        it('should parse chapter-only references', () => {
+            const [ref] = parseScriptureReferences('The shepherd of Psalm 23 leads us.');
+
+            expect(ref.start).toEqual({ chapter: 23, verse: null });
+            expect(ref.text).toBe('Psalm 23');
+            expect(formatReflyReference(ref)).toBe('Ps23');
+        });
+
+        it('should parse chapter ranges', () => {
+            expect(refly('Read Matthew 5–7 first.')).toEqual(['Mt5-7']);
+        });
+
+        it('should split verse lists into parts', () => {
+            const text = 'Compare Rom 8:1, 28–30; 9:1 on this.';
+
+            expect(texts(text)).toEqual(['Rom 8:1', '28–30', '9:1']);
+            expect(refly(text)).toEqual(['Ro8.1', 'Ro8.28-30', 'Ro9.1']);
+        });
+
+        it('should treat numbers after a semicolon as chapters', () => {
+            expect(refly('Ps 23; 24 and more')).toEqual(['Ps23', 'Ps24']);
+        });
+
+        it('should stop a list at the next book', () => {
+            const text = 'Rom 8:1; 1 Cor 2:3';
+
+            expect(texts(text)).toEqual(['Rom 8:1', '1 Cor 2:3']);
+            expect(refly(text)).toEqual(['Ro8.1', '1Co2.3']);
+        });
+
+        it('should carry the book and chapter forward to verse markers', () => {
+            const text = 'In John 3:16 (cf. v. 12 and vv. 17–18) we read';
+
+            expect(texts(text)).toEqual(['John 3:16', 'v. 12', 'vv. 17–18']);
+            expect(refly(text)).toEqual(['Jn3.16', 'Jn3.12', 'Jn3.17-18']);
+        });
+
+        it('should carry the book forward to bare chapter and verse references', () => {
+            expect(refly('Matthew 5:3 and later 6:9 as well')).toEqual(['Mt5.3', 'Mt6.9']);
+        });
+
+        it('should carry the book forward to chapter markers', () => {
+            expect(refly('Romans 8:1, but see ch. 12')).toEqual(['Ro8.1', 'Ro12']);
+        });
+
+        it('should not carry the book into the next paragraph', () => {
+            expect(refly('Matthew 5:3\n\nThe meeting is at 10:30.')).toEqual(['Mt5.3']);
+        });
+
+        it('should not treat times as references', () => {
+            expect(refly('Matthew 5:3 is read at 10:30 am.')).toEqual(['Mt5.3']);
+            expect(refly('The meeting is at 10:30 in room 5.')).toEqual([]);
+        });
+
+        it('should not treat verse markers without a book as references', () => {
+            expect(refly('See v. 12 below.')).toEqual([]);
+        });
+
+        it('should not treat short lowercase words as chapter-only references', () => {
+            expect(refly('there is 5 of them and so 3 more')).toEqual([]);
+        });
+
+        it('should read a plain number in a single-chapter book as a verse', () => {
+            expect(refly('Jude 3 urges us to contend for the faith')).toEqual(['Jud1.3']);
+            expect(refly('Obadiah 15, Philemon 6; 10 and 2 John 7–9')).toEqual(['Ob1.15', 'Phm1.6', 'Phm1.10', '2Jn1.7-9']);
+            expect(refly('3 John 4 and Jude 1:24')).toEqual(['3Jn1.4', 'Jud1.24']);
+        });
+
+        it('should not treat numbers past the end of a book as chapters', () => {
+            expect(refly('Romans 20 is not a chapter, nor is Jude 40')).toEqual([]);
+            expect(refly('Psalm 150 and Psalm 151')).toEqual(['Ps150']);
+        });
+
+        it('should not treat book names used as English words as references', () => {
+            expect(refly('Mark 5 people came to the meeting.')).toEqual([]);
+            expect(refly('Numbers 3 and 4 are odd.')).toEqual([]);
+            expect(refly('The Acts 2 team met twice.')).toEqual([]);
+            expect(refly('In Mark 5, Jesus heals a woman (compare Numbers 3).')).toEqual(['Mk5', 'Nu3']);
+            expect(refly('Mark 5:1 says')).toEqual(['Mk5.1']);
+        });
+
+        it('should handle numbered and Roman numeral books', () => {
+            expect(refly('1 John 1:9, II Kings 5:14 and 2 Cor. 5:17')).toEqual(['1Jn1.9', '2Ki5.14', '2Co5.17']);
+        });
+
+        it('should handle books that start with I', () => {
+            expect(refly('Isaiah 53:5 and Is 40:31')).toEqual(['Is53.5', 'Is40.31']);
+        });
+
+        it('should handle multi-word book names', () => {
+            expect(refly('Song of Solomon 2:4')).toEqual(['So2.4']);
+        });
+
+        it('should ignore verse letter suffixes', () => {
+            expect(refly('Mark 1:15a says')).toEqual(['Mk1.15']);
+        });
+    });
+
+    describe('lookupBookCode', () => {
+        it('should look up names and abbreviations', () => {
+            expect(lookupBookCode('Genesis')).toBe('Ge');
+            expect(lookupBookCode('1 Cor.')).toBe('1Co');
+            expect(lookupBookCode('III John')).toBe('3Jn');
+        });
+
+        it('should return null for unknown names', () => {
+            expect(lookupBookCode('Room')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { DEFAULT_CALLOUT_TEMPLATE, DEFAULT_CITATION_TEMPLATE, DEFAULT_REFERENCE_NOTE_TEMPLATE, templatesFromLegacySettings } from '../constants/templates';
+import { formatAuthorNames, getBibtexVariables, renderTemplate, validateTemplate } from '../utils/template-engine';
+
+describe('Template Engine', () => {
+    describe('renderTemplate', () => {
+        it('should replace placeholders and leave missing ones empty', () => {
+            expect(renderTemplate('{{ citeKey }}, p. {{page}}{{missing}}', { citeKey: 'Grudem_1994', page: '226' }))
+                .toBe('Grudem_1994, p. 226');
+        });
+
+        it('should render conditionals with else and unless', () => {
+            const template = '{{#if page}}p. {{page}}{{else}}no page{{/if}}{{#unless reflyLink}}!{{/unless}}';
+            expect(renderTemplate(template, { page: '12' })).toBe('p. 12!');
+            expect(renderTemplate(template, { page: '', reflyLink: 'https://ref.ly/x' })).toBe('no page');
+        });
+
+        it('should support nested conditionals', () => {
+            const template = '{{#if author}}{{author}}{{#if year}} ({{year}}){{/if}}{{/if}}';
+            expect(renderTemplate(template, { author: 'Wayne Grudem', year: '1994' })).toBe('Wayne Grudem (1994)');
+            expect(renderTemplate(template, { author: 'Wayne Grudem' })).toBe('Wayne Grudem');
+            expect(renderTemplate(template, { year: '1994' })).toBe('');
+        });
+
+        it('should drop lines that only hold a conditional tag', () => {
+            const template = 'a\n{{#if reflyLink}}\nlink\n{{/if}}\nb';
+            expect(renderTemplate(template, {})).toBe('a\nb');
+            expect(renderTemplate(template, { reflyLink: 'x' })).toBe('a\nlink\nb');
+        });
+
+        it('should keep the quote prefix on every line of a multi-line value', () => {
+            expect(renderTemplate('> [!logos]\n> {{quote}}', { quote: 'one\ntwo' })).toBe('> [!logos]\n> one\n> two');
+        });
+    });
+
+    describe('validateTemplate', () => {
+        it('should report unbalanced tags', () => {
+            expect(validateTemplate('{{#if page}}{{page}}{{/if}}')).toEqual([]);
+            expect(validateTemplate('{{#if page}}{{page}}')).toEqual(['Missing {{/if}} for {{#if page}}']);
+            expect(validateTemplate('{{page}}{{/unless}}')).toEqual(['Unexpected {{/unless}}']);
+        });
+    });
+
+    describe('getBibtexVariables', () => {
+        it('should read the cite key, title, author and year', () => {
+            const bibtex = '@book{Waltke_Yu_2007,\n  author = {Waltke, Bruce K. and Yu, Charles},\n  title = {An Old Testament Theology},\n  date = {2007-01-01}\n}';
+            expect(getBibtexVariables(bibtex)).toEqual({
+                citeKey: 'Waltke_Yu_2007',
+                title: 'An Old Testament Theology',
+                author: 'Bruce K. Waltke and Charles Yu',
+                year: '2007',
+                publisher: null
+            });
+        });
+
+        it('should return nothing for text that is not BibTeX', () => {
+            expect(getBibtexVariables('not bibtex')).toEqual({});
+        });
+    });
+
+    describe('formatAuthorNames', () => {
+        it('should list three or more names with commas', () => {
+            expect(formatAuthorNames('Carson, D. A. and Moo, Douglas J. and Morris, Leon'))
+                .toBe('D. A. Carson, Douglas J. Moo, and Leon Morris');
+        });
+    });
+
+    describe('default templates', () => {
+        const variables = {
+            calloutTitle: 'Logos Reference',
+            quote: 'First line\nSecond line',
+            reflyLink: 'https://ref.ly/logosres/systhe',
+            link: '[[Grudem_1994.md|Grudem_1994, p. 226]]',
+            blockId: 'Grudem_1994-1',
+            sourceNote: 'Sermon',
+            page: '226'
+        };
+
+        it('should render the callout and reference note', () => {
+            expect(renderTemplate(DEFAULT_CALLOUT_TEMPLATE, variables)).toBe(
+                '> [!logos] Logos Reference\n> First line\n> Second line\n> [[Grudem_1994.md|Grudem_1994, p. 226]] ^Grudem_1994-1\n'
+            );
+            const citation = renderTemplate(DEFAULT_CITATION_TEMPLATE, variables);
+            expect(citation).toBe('- [[Sermon#^Grudem_1994-1]] → p. 226');
+            expect(renderTemplate(DEFAULT_REFERENCE_NOTE_TEMPLATE, { bibtex: '@book{Grudem_1994}', citation }))
+                .toBe('```bibtex\n@book{Grudem_1994}\n```\n\n## Citations\n- [[Sermon#^Grudem_1994-1]] → p. 226');
+        });
+
+        it('should match the defaults when no old layout settings were set', () => {
+            expect(templatesFromLegacySettings({})).toEqual({
+                calloutTemplate: DEFAULT_CALLOUT_TEMPLATE,
+                citationTemplate: DEFAULT_CITATION_TEMPLATE
+            });
+        });
+
+        it('should reproduce the old layout settings', () => {
+            const { calloutTemplate, citationTemplate } = templatesFromLegacySettings({
+                addNewLineBeforeLink: true,
+                addNewLineAfterCallout: true,
+                includeReflyLink: true
+            });
+            expect(renderTemplate(calloutTemplate, variables)).toBe([
+                '> [!logos] Logos Reference',
+                '> First line',
+                '> Second line',
+                '> ',
+                '> [Resource Link](https://ref.ly/logosres/systhe)',
+                '> ',
+                '> [[Grudem_1994.md|Grudem_1994, p. 226]] ^Grudem_1994-1',
+                '',
+                ''
+            ].join('\n'));
+            expect(renderTemplate(calloutTemplate, { ...variables, reflyLink: null })).not.toContain('Resource Link');
+            expect(renderTemplate(citationTemplate, variables)).toBe('\n- [[Sermon#^Grudem_1994-1]] → p. 226');
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { appendToSection, getLineContext, getLineNumber } from '../utils/text-utils';
+
+describe('Text Utils', () => {
+    describe('getLineNumber', () => {
+        it('should count the lines before an offset', () => {
+            const text = 'first\nsecond\nthird';
+            expect(getLineNumber(text, 0)).toBe(0);
+            expect(getLineNumber(text, text.indexOf('second'))).toBe(1);
+            expect(getLineNumber(text, text.indexOf('third') + 2)).toBe(2);
+        });
+    });
+
+    describe('getLineContext', () => {
+        it('should return the trimmed line around an offset', () => {
+            const text = 'first\n  See John 3:16 here.  \nthird';
+            expect(getLineContext(text, text.indexOf('John'))).toBe('See John 3:16 here.');
+        });
+
+        it('should shorten long lines around the offset', () => {
+            const text = `${'a'.repeat(200)} John 3:16 ${'b'.repeat(200)}`;
+            const context = getLineContext(text, text.indexOf('John'), 60);
+
+            expect(context).toContain('John 3:16');
+            expect(context.startsWith('…')).toBe(true);
+            expect(context.endsWith('…')).toBe(true);
+        });
+    });
+
+    describe('appendToSection', () => {
+        const NOTE = '# Inbox\n\n## Reading\n\nFirst quote\n\n### Details\n\nMore\n\n## Later\n\nText\n';
+
+        it('should append to the end of the note without a heading', () => {
+            expect(appendToSection('Text\n\n', null, '> Quote\n')).toBe('Text\n\n> Quote\n');
+            expect(appendToSection('', null, '> Quote')).toBe('> Quote\n');
+        });
+
+        it('should append at the end of the section, after its subsections', () => {
+            expect(appendToSection(NOTE, 'Reading', '> Quote'))
+                .toBe('# Inbox\n\n## Reading\n\nFirst quote\n\n### Details\n\nMore\n\n> Quote\n\n## Later\n\nText\n');
+            expect(appendToSection(NOTE, '## later', '> Quote'))
+                .toBe('# Inbox\n\n## Reading\n\nFirst quote\n\n### Details\n\nMore\n\n## Later\n\nText\n\n> Quote\n');
+        });
+
+        it('should add a missing heading and ignore headings in code', () => {
+            expect(appendToSection('```\n# Quotes\n```\n', 'Quotes', '> Quote'))
+                .toBe('```\n# Quotes\n```\n\n## Quotes\n\n> Quote\n');
+        });
+    });
+});
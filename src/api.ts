@@ -0,0 +1,71 @@
+/**
+ * Public API for other plugins and scripts
+ *
+ * Available as `app.plugins.getPlugin('logos-references').api`, for example from
+ * Templater or Dataview scripts.
+ */
+
+import { EventRef, TFile } from 'obsidian';
+import { VerseLinkChange } from './utils/bible-linker';
+import { BibtexEntry } from './utils/bibtex-parser';
+import { ParsedClipboard } from './utils/clipboard-parser';
+import { CitationInsertMode } from './utils/pandoc';
+
+export type { BibtexEntry, CitationInsertMode, ParsedClipboard, VerseLinkChange };
+
+/**
+ * What `addCitation` wrote for one citation
+ */
+export interface LogosCitationResult {
+    /** The callout (or blockquote) that was added to the source note */
+    callout: string;
+    blockId: string;
+    citeKey: string;
+    /** Path of the reference note that was created or given a Citations entry */
+    referenceNotePath: string;
+    /** Footnote definition to add to the source note, in footnote mode */
+    footnote: string | null;
+}
+
+/**
+ * Passed to `paste` listeners after quotes were pasted and their reference notes updated
+ */
+export interface LogosPasteEvent {
+    /** The note the quotes were pasted into */
+    file: TFile;
+    citations: ParsedClipboard[];
+    results: LogosCitationResult[];
+    mode: CitationInsertMode;
+}
+
+export interface LogosReferencesApi {
+    /** Splits a Logos clipboard into the quote, BibTeX, page and ref.ly link */
+    parseLogosClipboard(clipboard: string): ParsedClipboard;
+    /** Like `parseLogosClipboard`, for a clipboard holding several quotes */
+    parseLogosClipboardBatch(clipboard: string): ParsedClipboard[];
+
+    /** Links the bible verses in a text to Logos, in the given or the preferred translation */
+    linkBibleVerses(text: string, translation?: string): string;
+    /** Lists the verse links `linkBibleVerses` would add, without changing the text */
+    findVerseLinks(text: string, translation?: string): VerseLinkChange[];
+
+    /** Returns the normalized cite key of a BibTeX entry, as used in block IDs and exports */
+    getCiteKey(bibtex: string): string;
+    /** Returns the path a reference note for this BibTeX gets, whether or not it exists yet */
+    getReferenceNotePath(bibtex: string): string;
+    /** Finds the reference note whose BibTeX has this cite key */
+    findReferenceNote(citeKey: string): Promise<TFile | null>;
+    /** Returns the BibTeX entry of the reference note with this cite key */
+    getBibtexEntry(citeKey: string): Promise<BibtexEntry | null>;
+
+    /**
+     * Runs the paste pipeline for one citation without the editor: creates the reference note or adds
+     * a Citations entry to it, then adds the callout at the end of `file`, or of the section under `heading`.
+     * Fires `paste` when done; on failure the reference notes and block counter are restored.
+     */
+    addCitation(file: TFile, citation: ParsedClipboard, mode?: CitationInsertMode, heading?: string): Promise<LogosCitationResult>;
+
+    /** Calls `callback` after each paste, once the reference notes are updated */
+    on(name: 'paste', callback: (event: LogosPasteEvent) => unknown): EventRef;
+    offref(ref: EventRef): void;
+}
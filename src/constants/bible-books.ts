@@ -72,6 +72,53 @@ export const BIBLE_BOOKS: Record<string, string> = {
     'revelation': 'Re', 'rev': 'Re', 're': 'Re', 'apocalypse': 'Re', 'apoc': 'Re',
 };
 
+/**
+ * Display names for each Logos book code, in canonical order
+ */
+export const BOOK_NAMES: Record<string, string> = {
+    'Ge': 'Genesis', 'Ex': 'Exodus', 'Lv': 'Leviticus', 'Nu': 'Numbers', 'Dt': 'Deuteronomy',
+    'Jos': 'Joshua', 'Jdg': 'Judges', 'Ru': 'Ruth', '1Sa': '1 Samuel', '2Sa': '2 Samuel',
+    '1Ki': '1 Kings', '2Ki': '2 Kings', '1Ch': '1 Chronicles', '2Ch': '2 Chronicles',
+    'Ezr': 'Ezra', 'Ne': 'Nehemiah', 'Es': 'Esther', 'Job': 'Job', 'Ps': 'Psalms',
+    'Pr': 'Proverbs', 'Ec': 'Ecclesiastes', 'So': 'Song of Solomon', 'Is': 'Isaiah',
+    'Je': 'Jeremiah', 'La': 'Lamentations', 'Eze': 'Ezekiel', 'Da': 'Daniel', 'Ho': 'Hosea',
+    'Joe': 'Joel', 'Am': 'Amos', 'Ob': 'Obadiah', 'Jon': 'Jonah', 'Mic': 'Micah',
+    'Na': 'Nahum', 'Hab': 'Habakkuk', 'Zep': 'Zephaniah', 'Hag': 'Haggai', 'Zec': 'Zechariah',
+    'Mal': 'Malachi',
+    'Mt': 'Matthew', 'Mk': 'Mark', 'Lk': 'Luke', 'Jn': 'John', 'Ac': 'Acts', 'Ro': 'Romans',
+    '1Co': '1 Corinthians', '2Co': '2 Corinthians', 'Ga': 'Galatians', 'Eph': 'Ephesians',
+    'Php': 'Philippians', 'Col': 'Colossians', '1Th': '1 Thessalonians', '2Th': '2 Thessalonians',
+    '1Ti': '1 Timothy', '2Ti': '2 Timothy', 'Tt': 'Titus', 'Phm': 'Philemon', 'Heb': 'Hebrews',
+    'Jas': 'James', '1Pe': '1 Peter', '2Pe': '2 Peter', '1Jn': '1 John', '2Jn': '2 John',
+    '3Jn': '3 John', 'Jud': 'Jude', 'Re': 'Revelation',
+};
+
+/**
+ * Logos book codes in canonical order
+ */
+export const BOOK_ORDER: string[] = Object.keys(BOOK_NAMES);
+
+/**
+ * Number of chapters in each book, following English Bibles (Joel 3, Malachi 4)
+ */
+export const BOOK_CHAPTERS: Record<string, number> = {
+    'Ge': 50, 'Ex': 40, 'Lv': 27, 'Nu': 36, 'Dt': 34, 'Jos': 24, 'Jdg': 21, 'Ru': 4, '1Sa': 31, '2Sa': 24,
+    '1Ki': 22, '2Ki': 25, '1Ch': 29, '2Ch': 36, 'Ezr': 10, 'Ne': 13, 'Es': 10, 'Job': 42, 'Ps': 150,
+    'Pr': 31, 'Ec': 12, 'So': 8, 'Is': 66, 'Je': 52, 'La': 5, 'Eze': 48, 'Da': 12, 'Ho': 14,
+    'Joe': 3, 'Am': 9, 'Ob': 1, 'Jon': 4, 'Mic': 7, 'Na': 3, 'Hab': 3, 'Zep': 3, 'Hag': 2, 'Zec': 14,
+    'Mal': 4,
+    'Mt': 28, 'Mk': 16, 'Lk': 24, 'Jn': 21, 'Ac': 28, 'Ro': 16, '1Co': 16, '2Co': 13, 'Ga': 6, 'Eph': 6,
+    'Php': 4, 'Col': 4, '1Th': 5, '2Th': 3, '1Ti': 6, '2Ti': 4, 'Tt': 3, 'Phm': 1, 'Heb': 13,
+    'Jas': 5, '1Pe': 5, '2Pe': 3, '1Jn': 5, '2Jn': 1, '3Jn': 1, 'Jud': 1, 'Re': 22,
+};
+
+/**
+ * Number of verses in the books that have a single chapter, where "Jude 3" means verse 3
+ */
+export const SINGLE_CHAPTER_VERSES: Record<string, number> = {
+    'Ob': 21, 'Phm': 25, '2Jn': 13, '3Jn': 15, 'Jud': 25,
+};
+
 /**
  * Maps translation display names to Logos ref.ly codes
  */
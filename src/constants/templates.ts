@@ -0,0 +1,97 @@
+/**
+ * Default templates for the callout block and the reference note
+ */
+
+import { TemplateVariables } from '../utils/template-engine';
+
+export const DEFAULT_CALLOUT_TEMPLATE = [
+    '> [!logos] {{calloutTitle}}',
+    '> {{quote}}',
+    '> {{link}} ^{{blockId}}',
+    ''
+].join('\n');
+
+/** Used by "Paste logos reference as pandoc citation" */
+export const PANDOC_QUOTE_TEMPLATE = [
+    '> {{quote}}',
+    '> {{pandocCitation}} ^{{blockId}}',
+    ''
+].join('\n');
+
+/** Used by "Paste logos reference as footnote"; the footnote is defined at the end of the note */
+export const FOOTNOTE_QUOTE_TEMPLATE = [
+    '> {{quote}}[^{{footnote}}] ^{{blockId}}',
+    ''
+].join('\n');
+
+export const DEFAULT_CITATION_TEMPLATE = '- [[{{sourceNote}}#^{{blockId}}]]{{#if page}} → p. {{page}}{{/if}}';
+
+export const DEFAULT_REFERENCE_NOTE_TEMPLATE = [
+    '```bibtex',
+    '{{bibtex}}',
+    '```',
+    '',
+    '## Citations',
+    '{{citation}}'
+].join('\n');
+
+/**
+ * Settings that shaped the callout before templates existed
+ */
+export interface LegacyTemplateSettings {
+    addNewLineBeforeLink?: boolean;
+    addNewLineAfterCallout?: boolean;
+    includeReflyLink?: boolean;
+}
+
+/**
+ * Builds the templates that reproduce what the old layout settings produced
+ */
+export function templatesFromLegacySettings(legacy: LegacyTemplateSettings): { calloutTemplate: string, citationTemplate: string } {
+    const lines = ['> [!logos] {{calloutTitle}}', '> {{quote}}'];
+    if (legacy.addNewLineBeforeLink) {
+        lines.push('> ');
+    }
+    if (legacy.includeReflyLink) {
+        lines.push('{{#if reflyLink}}', '> [Resource Link]({{reflyLink}})', '> ', '{{/if}}');
+    }
+    lines.push('> {{link}} ^{{blockId}}', '');
+    if (legacy.addNewLineAfterCallout) {
+        lines.push('');
+    }
+
+    return {
+        calloutTemplate: lines.join('\n'),
+        citationTemplate: `${legacy.addNewLineBeforeLink ? '\n' : ''}${DEFAULT_CITATION_TEMPLATE}`
+    };
+}
+
+/**
+ * Sample values for the template preview in the settings tab
+ */
+export const TEMPLATE_PREVIEW_VARIABLES: TemplateVariables = {
+    quote: 'The doctrine of the Trinity is one of the most important doctrines of the Christian faith.\nTo study the Bible’s teachings on the Trinity gives us great insight.',
+    citeKey: 'Grudem_1994',
+    title: 'Systematic Theology: An Introduction to Biblical Doctrine',
+    author: 'Wayne Grudem',
+    year: '1994',
+    publisher: 'Inter-Varsity Press; Zondervan',
+    page: '226',
+    pageLabel: 'p. 226',
+    reflyLink: 'https://ref.ly/logosres/systhe?ref=Page.p+226',
+    blockId: 'Grudem_1994-1',
+    sourceNote: 'Sermon notes',
+    calloutTitle: 'Logos Reference',
+    referenceNote: 'Grudem_1994',
+    link: '[[References/Grudem_1994.md|Grudem_1994, p. 226]]',
+    pandocCitation: '[@Grudem-1994, 226]',
+    bibtex: '@book{Grudem_1994,\n  author = {Grudem, Wayne},\n  title = {Systematic Theology: An Introduction to Biblical Doctrine},\n  year = {1994}\n}'
+};
+
+/**
+ * Placeholder names listed in the settings tab
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+    'quote', 'citeKey', 'title', 'author', 'year', 'publisher', 'page', 'pageLabel',
+    'reflyLink', 'blockId', 'sourceNote', 'calloutTitle', 'referenceNote', 'link', 'pandocCitation'
+];
@@ -4,21 +4,117 @@
  * A refined plugin for managing Logos Bible Software references in Obsidian.
  */
 
-import { Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFile, TFolder, htmlToMarkdown } from 'obsidian';
+import { Editor, Events, MarkdownView, Notice, ObsidianProtocolData, Plugin, TAbstractFile, TFile, TFolder, debounce, getLinkpath, normalizePath } from 'obsidian';
 import { LogosPluginSettings, DEFAULT_SETTINGS } from './types';
 import { LogosPluginSettingTab } from './settings';
-import { parseLogosClipboard, extractCiteKey, extractBookTitle, cleanFormattedText } from './utils/clipboard-parser';
-import { linkBibleVerses } from './utils/bible-linker';
-import { sanitizeNoteName, generateMetadataFrontmatter } from './utils/file-utils';
+import { LogosCitationResult, LogosPasteEvent, LogosReferencesApi } from './api';
+import { ParsedClipboard, parseLogosClipboard, parseLogosClipboardBatch, extractCiteKey, extractBookTitle, normalizeCiteKey } from './utils/clipboard-parser';
+import { logosHtmlToMarkdown } from './utils/logos-html';
+import { applyVerseLinks, findVerseLinks, linkBibleVerses } from './utils/bible-linker';
+import { appendToSection, getLineContext } from './utils/text-utils';
+import { removePastedText, restoreBlockCounter, withBlockCounterRollback } from './utils/paste-undo';
+import { FolderPickerModal } from './ui/folder-picker-modal';
+import { VerseLinkPreviewItem, VerseLinkPreviewModal } from './ui/verse-link-preview-modal';
+import { SCRIPTURE_INDEX_VIEW_TYPE, ScriptureIndexView } from './ui/scripture-index-view';
+import { ScriptureIndex } from './utils/scripture-index';
+import { QUOTE_LIBRARY_VIEW_TYPE, QuoteLibraryView } from './ui/quote-library-view';
+import { findDuplicateQuote, QuoteEntry, QuoteLibrary } from './utils/quote-library';
+import { DuplicateQuoteItem, DuplicateQuoteModal } from './ui/duplicate-quote-modal';
+import { getBibtexVariables, renderTemplate, TemplateVariables } from './utils/template-engine';
+import { FOOTNOTE_QUOTE_TEMPLATE, LegacyTemplateSettings, PANDOC_QUOTE_TEMPLATE, templatesFromLegacySettings } from './constants/templates';
+import { getMetadataValues } from './utils/frontmatter';
+import { findLogosCallouts } from './utils/logos-callouts';
+import { auditCitations, CalloutRecord, CitationIssue, CitationRecord } from './utils/citation-audit';
+import { CitationReportModal } from './ui/citation-report-modal';
+import { CitationReviewModal } from './ui/citation-review-modal';
+import { ManualPasteModal } from './ui/manual-paste-modal';
+import { CitationLink, findBlockIds, findCitationLinks, getNextBlockNumber, linkpathMatches, pruneCitationLinks, renameCitationLinks } from './utils/citation-links';
+import { generateMetadataFrontmatter, generateNotePath, getReferenceNoteName } from './utils/file-utils';
+import { classifyImport, ImportConflictStrategy, prepareImportEntry, resolveImportConflict } from './utils/bibtex-import';
+import { BibFilePickerModal, BibFileSource } from './ui/bib-file-picker-modal';
+import { BibtexImportItem, BibtexImportModal } from './ui/bibtex-import-modal';
+import { collectLinkedPaths } from './utils/link-graph';
+import { formatBibliography, formatBibliographyEntry, replaceBibliographySection } from './utils/bibliography';
+import { CitationInsertMode, convertNoteForPandoc, findPandocExportConflict, formatFootnoteDefinition, formatPandocCitation, getNextFootnoteNumber, setPandocBibliography } from './utils/pandoc';
+import { collectExportEntries, formatBibFile, formatCslJson } from './utils/bibtex-export';
+import { BibtexEntry, parseBibtex, parseBibtexCodeBlocks, parseBibtexEntry, removeBibtexField, stringifyBibtexEntry } from './utils/bibtex-parser';
+
+/**
+ * A callout ready to insert, with what is needed to update its reference note
+ */
+interface PreparedCallout {
+    callout: string;
+    filePath: string;
+    folder: string;
+    bibtex: string;
+    blockId: string;
+    page: string | null;
+    /** Template variables, reused for the reference note */
+    variables: TemplateVariables;
+    /** Footnote definition to add at the end of the note, in footnote mode */
+    footnote: string | null;
+}
+
+/**
+ * A reference note written by a paste, kept so the paste can be rolled back or undone
+ */
+interface ReferenceNoteChange {
+    path: string;
+    /** Content before the paste, or null if the paste created the note */
+    before: string | null;
+    after: string;
+    /** Folder the paste created for the note, if any */
+    createdFolder: string | null;
+}
+
+/**
+ * What the last paste wrote, for "Undo last logos paste"
+ */
+interface PasteRecord {
+    file: TFile;
+    inserted: string;
+    footnotes: string[];
+    blockIds: string[];
+    references: ReferenceNoteChange[];
+    /** The note's block counter before the paste */
+    counterBefore: number | undefined;
+}
+
+/**
+ * One note rewritten by "Link bible verses in folder", kept for undo
+ */
+interface FolderVerseLinkEdit {
+    file: TFile;
+    before: string;
+    after: string;
+}
 
 export default class LogosReferencePlugin extends Plugin {
     settings: LogosPluginSettings;
     private ribbonIconEl: HTMLElement | null = null;
+    private lastFolderVerseLinks: FolderVerseLinkEdit[] = [];
+    private lastPaste: PasteRecord | null = null;
+    /** Notes each note links to, by path; cleared when links may resolve differently */
+    private resolvedLinkCache = new Map<string, string[]>();
+    private events = new Events();
+    scriptureIndex = new ScriptureIndex();
+    quoteLibrary = new QuoteLibrary();
+    /** Public API for other plugins and scripts, see api.ts */
+    api: LogosReferencesApi = this.createApi();
 
     async onload() {
         await this.loadSettings();
         this.refreshRibbonIcon();
 
+        this.registerView(SCRIPTURE_INDEX_VIEW_TYPE, (leaf) => new ScriptureIndexView(leaf, this.scriptureIndex));
+        this.registerView(QUOTE_LIBRARY_VIEW_TYPE, (leaf) => new QuoteLibraryView(leaf, this.quoteLibrary));
+        this.app.workspace.onLayoutReady(() => {
+            void this.buildVaultIndexes();
+            if (this.settings.reconcileCitationsOnStartup) {
+                void this.reconcileCitationsUnattended();
+            }
+        });
+
         this.addCommand({
             id: 'paste-logos-reference',
             name: 'Paste logos reference with bibtex',
@@ -27,37 +123,681 @@ export default class LogosReferencePlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'paste-logos-reference-pandoc',
+            name: 'Paste logos reference as pandoc citation',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.handlePasteLogosReference(editor, view, 'pandoc');
+            }
+        });
+
+        this.addCommand({
+            id: 'paste-logos-reference-footnote',
+            name: 'Paste logos reference as footnote',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.handlePasteLogosReference(editor, view, 'footnote');
+            }
+        });
+
+        this.addCommand({
+            id: 'paste-logos-reference-manually',
+            name: 'Paste logos reference from text',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                if (view.file) this.openManualPaste(editor, view.file, 'callout');
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-last-logos-paste',
+            name: 'Undo last logos paste',
+            callback: async () => {
+                await this.handleUndoLastPaste();
+            }
+        });
+
         this.addCommand({
             id: 'list-bibtex-references',
-            name: 'List all bibtex references',
+            name: 'Insert bibliography',
             editorCallback: async (editor: Editor, view: MarkdownView) => {
                 await this.handleListBibtexReferences(editor, view);
             }
         });
 
+        this.addCommand({
+            id: 'export-note-references',
+            name: 'Export references used by current note',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                if (view.file) await this.handleExportReferences([view.file], view.file.basename);
+            }
+        });
+
+        this.addCommand({
+            id: 'export-note-for-pandoc',
+            name: 'Export current note for pandoc',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                if (view.file) await this.handleExportForPandoc(view.file);
+            }
+        });
+
+        this.addCommand({
+            id: 'export-folder-references',
+            name: 'Export references used in folder',
+            callback: () => {
+                new FolderPickerModal(this.app, (folder) => {
+                    void this.handleExportFolderReferences(folder);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'export-vault-references',
+            name: 'Export all references in vault',
+            callback: async () => {
+                await this.handleExportReferences(null, 'references');
+            }
+        });
+
+        this.addCommand({
+            id: 'import-bibtex-file',
+            name: 'Import bibtex file',
+            callback: () => {
+                new BibFilePickerModal(this.app, (source) => {
+                    void this.handleImportBibtex(source);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'refresh-reference-properties',
+            name: 'Refresh reference note properties from bibtex',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.handleRefreshReferenceProperties(view);
+            }
+        });
+
+        this.addCommand({
+            id: 'reconcile-citations',
+            name: 'Reconcile citations',
+            callback: async () => {
+                await this.handleReconcileCitations();
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-verses-selection',
+            name: 'Link bible verses in selection',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                this.handleLinkVersesInEditor(editor, view, true);
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-verses-note',
+            name: 'Link bible verses in current note',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                this.handleLinkVersesInEditor(editor, view, false);
+            }
+        });
+
+        this.addCommand({
+            id: 'link-bible-verses-folder',
+            name: 'Link bible verses in folder',
+            callback: () => {
+                new FolderPickerModal(this.app, (folder) => {
+                    void this.handleLinkVersesInFolder(folder);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-folder-verse-links',
+            name: 'Undo last folder verse linking',
+            callback: async () => {
+                await this.handleUndoFolderVerseLinks();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-scripture-index',
+            name: 'Open scripture index',
+            callback: async () => {
+                await this.activateView(SCRIPTURE_INDEX_VIEW_TYPE);
+            }
+        });
+
+        this.addCommand({
+            id: 'open-quote-library',
+            name: 'Open quote library',
+            callback: async () => {
+                await this.activateView(QUOTE_LIBRARY_VIEW_TYPE);
+            }
+        });
+
+        this.registerObsidianProtocolHandler('logos-references', (params) => {
+            void this.handleProtocolCapture(params);
+        });
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (file instanceof TFolder) {
+                menu.addItem((item) => {
+                    item.setTitle('Link bible verses in folder')
+                        .setIcon('book-open')
+                        .onClick(() => {
+                            void this.handleLinkVersesInFolder(file);
+                        });
+                });
+                menu.addItem((item) => {
+                    item.setTitle('Export references used in folder')
+                        .setIcon('file-output')
+                        .onClick(() => {
+                            void this.handleExportFolderReferences(file);
+                        });
+                });
+            }
+        }));
+
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            void this.handleNoteRenamed(file, oldPath);
+        }));
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+            this.resolvedLinkCache.delete(file.path);
+        }));
+        // A new, renamed or deleted note can change what other notes' links point to
+        this.registerEvent(this.app.vault.on('create', () => this.resolvedLinkCache.clear()));
+        this.registerEvent(this.app.vault.on('rename', () => this.resolvedLinkCache.clear()));
+        this.registerEvent(this.app.vault.on('delete', () => this.resolvedLinkCache.clear()));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            void this.handleNoteDeleted(file);
+        }));
+
         this.addSettingTab(new LogosPluginSettingTab(this.app, this));
     }
 
     /**
-     * Handles the "Paste Logos reference" command
+     * Moves a renamed note's block-ID counter and points the Citations backlinks at its new name
      */
-    private async handlePasteLogosReference(editor: Editor, view: MarkdownView): Promise<void> {
+    private async handleNoteRenamed(file: TAbstractFile, oldPath: string): Promise<void> {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+
+        const counters = this.settings.citationCounters;
+        if (counters[oldPath] !== undefined) {
+            counters[file.path] = Math.max(counters[file.path] ?? 0, counters[oldPath]);
+            delete counters[oldPath];
+            await this.saveSettings();
+        }
+
+        const blockIds = findBlockIds(await this.app.vault.cachedRead(file));
+        if (blockIds.length === 0) return;
+
+        let updated = 0;
+        for (const refFile of this.getReferenceNotes()) {
+            if (refFile === file) continue;
+            const newLinkpath = this.app.metadataCache.fileToLinktext(file, refFile.path, true);
+            const content = await this.app.vault.cachedRead(refFile);
+            if (renameCitationLinks(content, oldPath, newLinkpath, blockIds) === content) continue;
+
+            await this.app.vault.process(refFile, current => renameCitationLinks(current, oldPath, newLinkpath, blockIds));
+            updated++;
+        }
+
+        if (updated > 0) {
+            new Notice(`Updated citations in ${updated} reference ${updated === 1 ? 'note' : 'notes'}`);
+        }
+    }
+
+    /**
+     * Forgets a deleted note's counter and removes the Citations entries that pointed to it
+     */
+    private async handleNoteDeleted(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+
+        if (this.settings.citationCounters[file.path] !== undefined) {
+            delete this.settings.citationCounters[file.path];
+            await this.saveSettings();
+        }
+
+        let removed = 0;
+        for (const refFile of this.getReferenceNotes()) {
+            // A link that still resolves points to another note with the same name
+            const isDead = (link: CitationLink) => linkpathMatches(link.linkpath, file.path)
+                && !this.app.metadataCache.getFirstLinkpathDest(link.linkpath, refFile.path);
+            const content = await this.app.vault.cachedRead(refFile);
+            if (pruneCitationLinks(content, isDead).removed === 0) continue;
+
+            await this.app.vault.process(refFile, current => {
+                const pruned = pruneCitationLinks(current, isDead);
+                removed += pruned.removed;
+                return pruned.content;
+            });
+        }
+
+        if (removed > 0) {
+            new Notice(`Removed ${removed} ${removed === 1 ? 'citation' : 'citations'} of ${file.basename} from reference notes`);
+        }
+    }
+
+    /**
+     * Handles the "Reconcile citations" command
+     */
+    private async handleReconcileCitations(): Promise<void> {
+        const issues = await this.collectCitationIssues();
+        new CitationReportModal(this.app, issues, (issue) => this.fixCitationIssue(issue)).open();
+    }
+
+    /**
+     * Fixes every citation problem without asking, for the startup option
+     */
+    private async reconcileCitationsUnattended(): Promise<void> {
+        const issues = await this.collectCitationIssues();
+        let fixed = 0;
+        for (const issue of issues) {
+            if (await this.fixCitationIssue(issue)) fixed++;
+        }
+        if (fixed > 0) {
+            new Notice(`Reconciled ${fixed} ${fixed === 1 ? 'citation' : 'citations'} in reference notes`);
+        }
+    }
+
+    /**
+     * Scans every callout and every reference note's Citations list
+     */
+    private async collectCitationIssues(): Promise<CitationIssue[]> {
+        const referencePaths = new Set(this.getReferenceNotes().map(f => f.path));
+        const { metadataCache } = this.app;
+        const callouts: CalloutRecord[] = [];
+        const citations: CitationRecord[] = [];
+        const blockIdsByPath = new Map<string, Set<string>>();
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const content = await this.app.vault.cachedRead(file);
+            blockIdsByPath.set(file.path, new Set(findBlockIds(content)));
+
+            findLogosCallouts(content).forEach(callout => {
+                if (!callout.blockId || !callout.referenceLink) return;
+                const reference = metadataCache.getFirstLinkpathDest(callout.referenceLink, file.path);
+                if (reference && referencePaths.has(reference.path)) {
+                    callouts.push({ sourcePath: file.path, blockId: callout.blockId, referencePath: reference.path, page: callout.page });
+                }
+            });
+
+            if (referencePaths.has(file.path)) {
+                findCitationLinks(content).forEach(link => citations.push({
+                    referencePath: file.path,
+                    link,
+                    targetPath: metadataCache.getFirstLinkpathDest(link.linkpath, file.path)?.path ?? null
+                }));
+            }
+        }
+
+        return auditCitations(callouts, citations, blockIdsByPath);
+    }
+
+    /**
+     * Fixes one citation problem: adds a missing entry, or removes a dead or duplicate one
+     */
+    private async fixCitationIssue(issue: CitationIssue): Promise<boolean> {
+        const refFile = this.app.vault.getAbstractFileByPath(issue.referencePath);
+        if (!(refFile instanceof TFile)) return false;
+
+        if (issue.kind === 'missing') {
+            const sourceFile = issue.sourcePath ? this.app.vault.getAbstractFileByPath(issue.sourcePath) : null;
+            if (!(sourceFile instanceof TFile)) return false;
+
+            const [entry] = parseBibtexCodeBlocks(await this.app.vault.read(refFile));
+            const citationLine = renderTemplate(this.settings.citationTemplate, {
+                ...getBibtexVariables(entry ?? null),
+                sourceNote: this.app.metadataCache.fileToLinktext(sourceFile, refFile.path, true),
+                blockId: issue.blockId,
+                page: issue.page
+            });
+            await this.appendCitationToFile(refFile, citationLine);
+            return true;
+        }
+
+        const resolve = (link: CitationLink) => this.app.metadataCache.getFirstLinkpathDest(link.linkpath, refFile.path)?.path ?? null;
+        let seen = false;
+        await this.app.vault.process(refFile, content => pruneCitationLinks(content, link => {
+            if (link.blockId !== issue.blockId) return false;
+            if (issue.kind === 'dead') {
+                return link.linkpath === issue.link?.linkpath;
+            }
+            // Keep the first entry for the callout and drop the rest
+            if (resolve(link) !== issue.sourcePath) return false;
+            if (!seen) {
+                seen = true;
+                return false;
+            }
+            return true;
+        }).content);
+        return true;
+    }
+
+    /**
+     * Lists the notes in the reference folder
+     */
+    private getReferenceNotes(): TFile[] {
+        const folder = this.settings.bibFolder.trim();
+        return this.app.vault.getMarkdownFiles()
+            .filter(f => !folder || f.path.startsWith(`${folder}/`));
+    }
+
+    /**
+     * Handles the "Paste Logos reference" commands.
+     * A clipboard holding several citations produces one callout per quote,
+     * or one blockquote per quote with a Pandoc citation or a footnote.
+     */
+    private async handlePasteLogosReference(editor: Editor, view: MarkdownView, mode: CitationInsertMode = 'callout'): Promise<void> {
         const file = view.file;
         if (!file) {
             new Notice("No active editor");
             return;
         }
 
-        const notePath = file.name;
+        let clipboard: ParsedClipboard[];
+        try {
+            clipboard = await this.readLogosClipboard();
+        } catch (error) {
+            // Mobile apps and restricted browsers may refuse clipboard access; let the user paste by hand
+            console.error("Failed to read the clipboard", error);
+            this.openManualPaste(editor, file, mode, "The clipboard could not be read.");
+            return;
+        }
+        await this.handleLogosCitations(editor, file, clipboard, mode);
+    }
+
+    /**
+     * Opens the manual paste modal, which feeds its text through the same pipeline as the clipboard
+     */
+    private openManualPaste(editor: Editor, file: TFile, mode: CitationInsertMode, reason: string | null = null): void {
+        new ManualPasteModal(this.app, async (text) => {
+            await this.handleLogosCitations(editor, file, parseLogosClipboardBatch(text), mode);
+        }, reason).open();
+    }
+
+    /**
+     * Pastes parsed citations, after the review modal if it is turned on
+     */
+    private async handleLogosCitations(editor: Editor, file: TFile, parsed: ParsedClipboard[], mode: CitationInsertMode): Promise<void> {
+        const citations = parsed.filter(citation => citation.bibtex);
+        if (citations.length === 0) {
+            new Notice("Could not find a citation in the clipboard. Copy a passage together with its citation from logos.");
+            return;
+        }
+
+        if (!this.settings.reviewBeforeInsert) {
+            await this.pasteLogosCitations(editor, file, citations, mode);
+            return;
+        }
+
+        // Nothing is reserved or written until the review is confirmed
+        const noteContent = editor.getValue();
+        const firstBlockNumber = getNextBlockNumber(noteContent, this.settings.citationCounters[file.path]);
+        const firstFootnote = getNextFootnoteNumber(noteContent);
+        new CitationReviewModal(this.app, citations, (citation, index) => {
+            const p = this.prepareCallout(file, firstBlockNumber + index, citation, mode, mode === 'footnote' ? firstFootnote + index : null);
+            return { callout: p.callout, referenceNotePath: p.filePath };
+        }, async (reviewed) => {
+            await this.pasteLogosCitations(editor, file, reviewed, mode);
+        }).open();
+    }
+
+    /**
+     * Pastes the citations, first offering to embed the quotes that are already in the vault
+     */
+    private async pasteLogosCitations(editor: Editor, file: TFile, citations: ParsedClipboard[], mode: CitationInsertMode): Promise<void> {
+        // Offer to embed quotes that are already in the vault instead of pasting them again
+        const duplicates = this.findDuplicateQuotes(file, editor.getValue(), citations);
+        if (duplicates.size === 0) {
+            await this.insertLogosCitations(editor, file, citations, new Map(), mode);
+            return;
+        }
+
+        const items = new Map<number, DuplicateQuoteItem>();
+        duplicates.forEach((entry, index) => {
+            const quote = citations[index].mainText.replace(/\s+/g, ' ').trim();
+            items.set(index, {
+                quote: quote.length > 80 ? `${quote.slice(0, 80)}…` : quote,
+                existingPath: entry.filePath,
+                page: entry.callout.page,
+                embed: true
+            });
+        });
+
+        new DuplicateQuoteModal(this.app, Array.from(items.values()), async () => {
+            const embeds = new Map<number, string>();
+            items.forEach((item, index) => {
+                const embed = item.embed ? this.getQuoteEmbed(duplicates.get(index), file) : null;
+                if (embed) embeds.set(index, embed);
+            });
+            await this.insertLogosCitations(editor, file, citations, embeds, mode);
+        }).open();
+    }
+
+    /**
+     * Inserts a callout for each citation, or the given embed in place of a duplicate,
+     * and updates the reference notes of the new callouts
+     */
+    private async insertLogosCitations(
+        editor: Editor,
+        file: TFile,
+        citations: ParsedClipboard[],
+        embeds: Map<number, string>,
+        mode: CitationInsertMode = 'callout'
+    ): Promise<void> {
+        const noteContent = editor.getValue();
+        const counterBefore = this.settings.citationCounters[file.path];
+        const prepared: PreparedCallout[] = [];
+        let blocks: string[];
+        let references: ReferenceNoteChange[];
+        try {
+            // Reference notes are written first, so a failure leaves the note without a callout that links nowhere
+            ({ blocks, references } = await withBlockCounterRollback(this.settings.citationCounters, file.path, async () => {
+                let footnote = getNextFootnoteNumber(noteContent);
+                const inserted = citations.map((citation, index) => {
+                    const embed = embeds.get(index);
+                    if (embed) return embed;
+                    const blockNumber = this.reserveBlockNumber(file, noteContent);
+                    const p = this.prepareCallout(file, blockNumber, citation, mode, mode === 'footnote' ? footnote++ : null);
+                    prepared.push(p);
+                    return p.callout;
+                });
+                return { blocks: inserted, references: await this.writeReferenceNotes(prepared) };
+            }));
+        } catch (error) {
+            this.reportPasteFailure(error);
+            return;
+        }
+
+        // Callouts need a blank line between them, otherwise they merge into one blockquote.
+        // The template decides how many newlines follow the last one.
+        const lastCallout = prepared[prepared.length - 1]?.callout ?? '\n';
+        const newlineAfter = /\n*$/.exec(lastCallout)?.[0] ?? '';
+        const inserted = `${blocks.map(block => block.replace(/\n+$/, '')).join('\n\n')}${newlineAfter}`;
+        editor.replaceSelection(inserted);
+
+        const footnotes = prepared.flatMap(p => p.footnote ? [p.footnote] : []);
+        if (footnotes.length > 0) {
+            const lastLine = editor.lastLine();
+            const separator = editor.getLine(lastLine).trim() ? '\n\n' : '\n';
+            editor.replaceRange(`${separator}${footnotes.join('\n')}\n`, { line: lastLine, ch: editor.getLine(lastLine).length });
+        }
+
+        if (prepared.length > 0) {
+            await this.saveSettings();
+            this.lastPaste = { file, inserted, footnotes, blockIds: prepared.map(p => p.blockId), references, counterBefore };
+        }
+
+        const event: LogosPasteEvent = { file, citations, results: prepared.map(p => this.toCitationResult(p)), mode };
+        this.events.trigger('paste', event);
+
+        if (blocks.length > 1) {
+            new Notice(`Pasted ${blocks.length} logos references`);
+        }
+    }
+
+    /**
+     * Handles `obsidian://logos-references` links, e.g. from a Logos macro or a shell script.
+     * Takes `quote`, `bibtex`, `page`, `refly`, `file` and `heading` parameters and adds the callout
+     * to the end of `file` (or the inbox note), under `heading` if given.
+     */
+    private async handleProtocolCapture(params: ObsidianProtocolData): Promise<void> {
+        const quote = params.quote?.trim() ?? '';
+        const bibtex = params.bibtex?.trim() ?? '';
+        // Without a bibtex parameter, the quote may be a whole Logos clipboard
+        const citation = parseLogosClipboard(bibtex ? `${quote}\n\n${bibtex}` : quote);
+        if (!citation.bibtex) {
+            new Notice("Could not find a citation in the logos link. Pass the quote and its bibtex.");
+            return;
+        }
+        if (params.page) citation.page = params.page;
+        if (params.refly) citation.reflyLink = params.refly;
+
+        const target = params.file?.trim() || this.settings.inboxNote.trim();
+        if (!target) {
+            new Notice("No target note given and no inbox note set");
+            return;
+        }
+        let file: TFile | null = null;
+        let counterBefore: number | undefined;
+        let result: LogosCitationResult;
+        let references: ReferenceNoteChange[] = [];
+        try {
+            file = await this.getOrCreateNote(target);
+            counterBefore = this.settings.citationCounters[file.path];
+            const p = this.prepareCallout(file, this.reserveBlockNumber(file, await this.app.vault.read(file)), citation);
+            references = await this.writeReferenceNotes([p]);
+            await this.app.vault.process(file, content => appendToSection(content, params.heading ?? null, p.callout));
+            result = this.toCitationResult(p);
+        } catch (error) {
+            await this.revertReferenceNotes(references);
+            if (file) restoreBlockCounter(this.settings.citationCounters, file.path, counterBefore);
+            this.reportPasteFailure(error);
+            return;
+        }
+        await this.saveSettings();
+
+        const event: LogosPasteEvent = { file, citations: [citation], results: [result], mode: 'callout' };
+        this.events.trigger('paste', event);
+        new Notice(`Added logos quote to ${file.path}`);
+    }
+
+    /**
+     * Resolves a link or path to a note, creating the note (and its folder) when it does not exist
+     */
+    private async getOrCreateNote(linkpath: string): Promise<TFile> {
+        const existing = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(linkpath), '');
+        if (existing) return existing;
+
+        const path = normalizePath(linkpath.endsWith('.md') ? linkpath : `${linkpath}.md`);
+        await this.writeVaultFile(path, '');
+        const created = this.app.vault.getAbstractFileByPath(path);
+        if (!(created instanceof TFile)) throw new Error(`Could not create ${path}`);
+        return created;
+    }
+
+    /**
+     * Builds the public API, which wraps the same pipeline the commands use
+     */
+    private createApi(): LogosReferencesApi {
+        return {
+            parseLogosClipboard: (clipboard) => parseLogosClipboard(clipboard),
+            parseLogosClipboardBatch: (clipboard) => parseLogosClipboardBatch(clipboard),
+            linkBibleVerses: (text, translation) => linkBibleVerses(text, translation ?? this.settings.bibleTranslation),
+            findVerseLinks: (text, translation) => findVerseLinks(text, translation ?? this.settings.bibleTranslation),
+            getCiteKey: (bibtex) => extractCiteKey(bibtex),
+            getReferenceNotePath: (bibtex) => {
+                const noteName = getReferenceNoteName(extractCiteKey(bibtex), extractBookTitle(bibtex), this.settings.appendReferencesToTitle);
+                return generateNotePath(noteName, this.settings.bibFolder.trim());
+            },
+            findReferenceNote: async (citeKey) => (await this.findReferenceEntry(citeKey))?.file ?? null,
+            getBibtexEntry: async (citeKey) => (await this.findReferenceEntry(citeKey))?.entry ?? null,
+            addCitation: async (file, citation, mode = 'callout', heading) => {
+                const counterBefore = this.settings.citationCounters[file.path];
+                let references: ReferenceNoteChange[] = [];
+                let p: PreparedCallout;
+                try {
+                    const content = await this.app.vault.read(file);
+                    const footnote = mode === 'footnote' ? getNextFootnoteNumber(content) : null;
+                    p = this.prepareCallout(file, this.reserveBlockNumber(file, content), citation, mode, footnote);
+                    references = await this.writeReferenceNotes([p]);
+                    await this.app.vault.process(file, current => {
+                        const updated = appendToSection(current, heading ?? null, p.callout);
+                        return p.footnote ? appendToSection(updated, null, p.footnote) : updated;
+                    });
+                } catch (error) {
+                    await this.revertReferenceNotes(references);
+                    restoreBlockCounter(this.settings.citationCounters, file.path, counterBefore);
+                    throw error;
+                }
+                await this.saveSettings();
+
+                const result = this.toCitationResult(p);
+                const event: LogosPasteEvent = { file, citations: [citation], results: [result], mode };
+                this.events.trigger('paste', event);
+                return result;
+            },
+            on: (name, callback) => this.events.on(name, callback),
+            offref: (ref) => this.events.offref(ref)
+        };
+    }
+
+    private toCitationResult(p: PreparedCallout): LogosCitationResult {
+        return {
+            callout: p.callout,
+            blockId: p.blockId,
+            citeKey: p.variables.citeKey ?? '',
+            referenceNotePath: p.filePath,
+            footnote: p.footnote
+        };
+    }
+
+    /**
+     * Finds the reference note whose BibTeX entry has the given cite key, compared in normalized form
+     */
+    private async findReferenceEntry(citeKey: string): Promise<{ file: TFile, entry: BibtexEntry } | null> {
+        const key = normalizeCiteKey(citeKey);
+        for (const file of this.getReferenceNotes()) {
+            const entry = parseBibtexCodeBlocks(await this.app.vault.cachedRead(file))
+                .find(candidate => normalizeCiteKey(candidate.key) === key);
+            if (entry) return { file, entry };
+        }
+        return null;
+    }
+
+    /**
+     * Finds the citations whose cite key, page and quote already exist in the vault, by index
+     */
+    private findDuplicateQuotes(file: TFile, noteContent: string, citations: ParsedClipboard[]): Map<number, QuoteEntry> {
+        // The editor may hold callouts that are not saved yet
+        this.quoteLibrary.indexFile(file.path, noteContent, file.stat.mtime);
+        const { metadataCache } = this.app;
+        const entries = this.quoteLibrary.getEntries({
+            resolveLink: (linkpath, sourcePath) => metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path ?? null,
+            getTags: () => []
+        });
 
+        const duplicates = new Map<number, QuoteEntry>();
+        citations.forEach((citation, index) => {
+            const duplicate = findDuplicateQuote(entries, extractCiteKey(citation.bibtex), citation.page, citation.mainText);
+            if (duplicate) duplicates.set(index, duplicate);
+        });
+        return duplicates;
+    }
+
+    private getQuoteEmbed(entry: QuoteEntry | undefined, sourceFile: TFile): string | null {
+        const file = entry ? this.app.vault.getAbstractFileByPath(entry.filePath) : null;
+        if (!entry?.callout.blockId || !(file instanceof TFile)) return null;
+        return `![[${this.app.metadataCache.fileToLinktext(file, sourceFile.path, true)}#^${entry.callout.blockId}]]`;
+    }
+
+    /**
+     * Reads the clipboard and splits it into parsed citations.
+     * When formatting is retained, the quote text comes from the HTML version.
+     */
+    private async readLogosClipboard(): Promise<ParsedClipboard[]> {
         // 1. Read plain text version first (most reliable for BibTeX)
         const plainClipboard = await navigator.clipboard.readText();
-        const { mainText: plainMainText, bibtex: plainBibtex, page: plainPage, reflyLink: plainReflyLink } = parseLogosClipboard(plainClipboard);
-
-        let mainText = plainMainText;
-        let bibtex = plainBibtex;
-        let page = plainPage;
-        let reflyLink = plainReflyLink;
+        const citations = parseLogosClipboardBatch(plainClipboard);
 
         // 2. Try to read HTML version to get formatted text (only if enabled)
         if (this.settings.retainFormatting) {
@@ -67,23 +807,30 @@ export default class LogosReferencePlugin extends Plugin {
                     if (item.types.includes('text/html')) {
                         const blob = await item.getType('text/html');
                         const html = await blob.text();
-                        const markdown = htmlToMarkdown(html);
+                        const markdown = logosHtmlToMarkdown(html);
 
                         // Parse the markdown version as well
-                        const parsedMarkdown = parseLogosClipboard(markdown);
+                        const formatted = parseLogosClipboardBatch(markdown);
 
-                        // Use formatted main text
-                        mainText = parsedMarkdown.mainText;
+                        // Only merge when both versions split into the same citations
+                        if (formatted.length === citations.length) {
+                            citations.forEach((citation, index) => {
+                                const parsedMarkdown = formatted[index];
 
-                        // If BibTeX was missing in plain text but present in HTML (unlikely but possible), use it
-                        if (!bibtex && parsedMarkdown.bibtex) {
-                            bibtex = parsedMarkdown.bibtex;
-                        }
-                        if (!page && parsedMarkdown.page) {
-                            page = parsedMarkdown.page;
-                        }
-                        if (!reflyLink && parsedMarkdown.reflyLink) {
-                            reflyLink = parsedMarkdown.reflyLink;
+                                // Use formatted main text
+                                citation.mainText = parsedMarkdown.mainText;
+
+                                // If BibTeX was missing in plain text but present in HTML (unlikely but possible), use it
+                                if (!citation.bibtex && parsedMarkdown.bibtex) {
+                                    citation.bibtex = parsedMarkdown.bibtex;
+                                }
+                                if (!citation.page && parsedMarkdown.page) {
+                                    citation.page = parsedMarkdown.page;
+                                }
+                                if (!citation.reflyLink && parsedMarkdown.reflyLink) {
+                                    citation.reflyLink = parsedMarkdown.reflyLink;
+                                }
+                            });
                         }
                         break;
                     }
@@ -93,28 +840,39 @@ export default class LogosReferencePlugin extends Plugin {
             }
         }
 
-        if (!bibtex) {
-            new Notice("Could not find BibTeX in clipboard. Please ensure you copied a BibTeX citation from Logos.");
-            return;
-        }
+        return citations;
+    }
 
-        // Apply specific formatting requested by user (only if enabled)
-        if (this.settings.retainFormatting) {
-            mainText = cleanFormattedText(mainText);
-        }
+    /**
+     * Reserves the next block number for a note, from the IDs already in it and a persistent counter.
+     * The caller is responsible for saving settings afterwards.
+     */
+    private reserveBlockNumber(file: TFile, noteContent: string): number {
+        const counters = this.settings.citationCounters;
+        counters[file.path] = getNextBlockNumber(noteContent, counters[file.path]);
+        return counters[file.path];
+    }
+
+    /**
+     * Builds the callout for one citation with the given block number
+     */
+    private prepareCallout(
+        file: TFile,
+        blockNumber: number,
+        citation: ParsedClipboard,
+        mode: CitationInsertMode = 'callout',
+        footnote: number | null = null
+    ): PreparedCallout {
+        const { bibtex, page, reflyLink } = citation;
+        let mainText = citation.mainText;
 
         const citeKey = extractCiteKey(bibtex);
         const bookTitle = extractBookTitle(bibtex);
         const folder = this.settings.bibFolder.trim() || '';
 
         // Determine the note name based on settings
-        let noteName = citeKey;
-        if (this.settings.appendReferencesToTitle && bookTitle) {
-            noteName = `${bookTitle} - References`;
-        }
-        noteName = sanitizeNoteName(noteName);
-
-        const filePath = folder ? `${folder}/${noteName}.md` : `${noteName}.md`;
+        const noteName = getReferenceNoteName(citeKey, bookTitle, this.settings.appendReferencesToTitle);
+        const filePath = generateNotePath(noteName, folder);
 
         // Auto-detect Bible verses and link them to Logos if enabled
         if (this.settings.autoDetectBibleVerses) {
@@ -125,107 +883,249 @@ export default class LogosReferencePlugin extends Plugin {
             ? `, ${page.includes('-') || page.includes('–') ? 'pp.' : 'p.'} ${page}`
             : "";
 
-        // Generate block ID using a persistent counter
-        const counters = this.settings.citationCounters;
-        if (!counters[notePath]) {
-            counters[notePath] = 1;
-        } else {
-            counters[notePath]++;
-        }
-        const blockId = `${citeKey.replace(' ', '-')}-${counters[notePath]}`;
-        await this.saveSettings();
-
-        // Build the callout block
-        const calloutTitle = this.settings.customCalloutTitle || 'Logos Reference';
-        const quotedTextParts = [
-            `> [!logos] ${calloutTitle}`,
-            `> ${mainText.split('\n').join('\n> ')}`
-        ];
-
-        if (this.settings.addNewLineBeforeLink) {
-            quotedTextParts.push(`> `);
-        }
+        const blockId = `${citeKey.replace(' ', '-')}-${blockNumber}`;
 
         const linkAlias = this.settings.appendReferencesToTitle
             ? `${noteName}${pageLabel}`
             : `${citeKey}${pageLabel}`;
 
-        if (this.settings.includeReflyLink && reflyLink) {
-            quotedTextParts.push(`> [Resource Link](${reflyLink})`);
-            quotedTextParts.push(`> `);
-        }
+        const variables: TemplateVariables = {
+            ...getBibtexVariables(bibtex),
+            quote: mainText,
+            citeKey,
+            page,
+            pageLabel: pageLabel.replace(/^, /, ''),
+            reflyLink,
+            blockId,
+            sourceNote: this.app.metadataCache.fileToLinktext(file, filePath, true),
+            calloutTitle: this.settings.customCalloutTitle || 'Logos Reference',
+            referenceNote: noteName,
+            link: `[[${filePath}|${linkAlias}]]`,
+            pandocCitation: formatPandocCitation(citeKey, page),
+            footnote: footnote === null ? null : String(footnote)
+        };
 
-        quotedTextParts.push(`> [[${filePath}|${linkAlias}]] ^${blockId}`);
-        const quotedText = quotedTextParts.join('\n');
+        const templates: Record<CitationInsertMode, string> = {
+            callout: this.settings.calloutTemplate,
+            pandoc: PANDOC_QUOTE_TEMPLATE,
+            footnote: FOOTNOTE_QUOTE_TEMPLATE
+        };
+        const entry = parseBibtexEntry(bibtex);
+        const style = this.settings.bibliographyStyle === 'bibtex' ? 'sbl' : this.settings.bibliographyStyle;
 
-        const newlineAfter = this.settings.addNewLineAfterCallout ? '\n\n' : '\n';
-        editor.replaceSelection(`${quotedText}${newlineAfter}`);
+        return {
+            callout: renderTemplate(templates[mode], variables),
+            filePath,
+            folder,
+            bibtex,
+            blockId,
+            page,
+            variables,
+            footnote: footnote === null || !entry
+                ? null
+                : formatFootnoteDefinition(footnote, formatBibliographyEntry(removeBibtexField(entry, 'pages'), style), variables.pageLabel ?? null)
+        };
+    }
 
-        // Create or update the reference file
-        await this.createOrUpdateReferenceFile(filePath, folder, bibtex, file.basename, blockId, page);
+    /**
+     * Creates the reference notes of the prepared callouts, or adds their citations to them.
+     * If one fails, the notes already written are put back and the error is rethrown.
+     */
+    private async writeReferenceNotes(prepared: PreparedCallout[]): Promise<ReferenceNoteChange[]> {
+        const changes: ReferenceNoteChange[] = [];
+        try {
+            // One at a time, since several quotes may share a book
+            for (const p of prepared) {
+                const change = await this.createOrUpdateReferenceFile(p.filePath, p.folder, p.bibtex, p.variables);
+                if (change) changes.push(change);
+            }
+        } catch (error) {
+            await this.revertReferenceNotes(changes);
+            throw error;
+        }
+        return changes;
     }
 
     /**
-     * Creates a new reference file or appends a citation to an existing one
+     * Puts reference notes back as they were before a paste, deleting the ones it created
+     */
+    private async revertReferenceNotes(changes: ReferenceNoteChange[]): Promise<void> {
+        for (const change of [...changes].reverse()) {
+            try {
+                const file = this.app.vault.getAbstractFileByPath(change.path);
+                if (file instanceof TFile) {
+                    if (change.before === null) await this.app.fileManager.trashFile(file);
+                    else await this.app.vault.modify(file, change.before);
+                }
+                const folder = change.createdFolder ? this.app.vault.getAbstractFileByPath(change.createdFolder) : null;
+                if (folder instanceof TFolder && folder.children.length === 0) {
+                    await this.app.fileManager.trashFile(folder);
+                }
+            } catch (error) {
+                console.error(`Could not roll back ${change.path}`, error);
+            }
+        }
+    }
+
+    private reportPasteFailure(error: unknown): void {
+        console.error("Failed to paste logos reference", error);
+        new Notice(`Could not paste logos reference, nothing was changed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    /**
+     * Creates a new reference file or appends a citation to an existing one, and returns what changed
      */
     private async createOrUpdateReferenceFile(
         filePath: string,
         folder: string,
         bibtex: string,
-        sourceBasename: string,
-        blockId: string,
-        page: string | null
-    ): Promise<void> {
+        variables: TemplateVariables
+    ): Promise<ReferenceNoteChange | null> {
         const abstractFile = this.app.vault.getAbstractFileByPath(filePath);
         const abstractFileFolder = this.app.vault.getAbstractFileByPath(folder);
-        const linkBack = `[[${sourceBasename}#^${blockId}]]${page ? ` → p. ${page}` : ''}`;
+        const citationLine = renderTemplate(this.settings.citationTemplate, variables);
 
         if (!abstractFile) {
             // Create folder if needed
+            let createdFolder: string | null = null;
             if (folder && (!abstractFileFolder || !(abstractFileFolder instanceof TFolder))) {
                 await this.app.vault.createFolder(folder);
+                createdFolder = folder;
             }
 
-            const citationPrefix = this.settings.addNewLineBeforeLink ? '\n' : '';
-            const metadata = this.settings.useCustomMetadata
-                ? generateMetadataFrontmatter(this.settings.customMetadataFields)
-                : '';
-
-            const content = metadata + [
-                '```bibtex',
-                bibtex.replace(/pages\s*=\s*{[^}]*},?\s*/gi, ""),
-                '```',
-                '',
-                '## Citations',
-                `${citationPrefix}- ${linkBack}`
-            ].join('\n');
+            const entry = parseBibtexEntry(bibtex);
+            const storedBibtex = entry ? stringifyBibtexEntry(removeBibtexField(entry, 'pages')) : bibtex;
+            const content = this.buildReferenceNote(entry, storedBibtex, { ...variables, citation: citationLine });
 
-            await this.app.vault.create(filePath, content);
+            try {
+                await this.app.vault.create(filePath, content);
+            } catch (error) {
+                await this.revertReferenceNotes(createdFolder ? [{ path: filePath, before: null, after: content, createdFolder }] : []);
+                throw error;
+            }
             new Notice(`Created ${filePath}`);
-        } else {
-            await this.appendCitationToFile(abstractFile, linkBack);
+            return { path: filePath, before: null, after: content, createdFolder };
+        }
+
+        if (!(abstractFile instanceof TFile)) {
+            throw new Error(`${filePath} is not a note`);
+        }
+        const before = await this.app.vault.read(abstractFile);
+        await this.appendCitationToFile(abstractFile, citationLine);
+        return { path: filePath, before, after: await this.app.vault.read(abstractFile), createdFolder: null };
+    }
+
+    /**
+     * Renders a new reference note: its frontmatter, then the reference note template
+     */
+    private buildReferenceNote(entry: BibtexEntry | null, storedBibtex: string, variables: TemplateVariables): string {
+        const metadata = this.settings.useCustomMetadata
+            ? generateMetadataFrontmatter(this.settings.customMetadataFields, this.settings.metadataFieldMappings, entry)
+            : '';
+        return metadata + renderTemplate(this.settings.referenceNoteTemplate, { ...variables, bibtex: storedBibtex });
+    }
+
+    /**
+     * Handles the "Import BibTeX file" command for a .bib file from the vault or the file picker
+     */
+    private async handleImportBibtex(source: BibFileSource): Promise<void> {
+        const text = source instanceof TFile ? await this.app.vault.read(source) : await source.text();
+        const entries = parseBibtex(text);
+        if (entries.length === 0) {
+            new Notice(`No bibtex entries found in ${source.name}`);
+            return;
+        }
+
+        const folder = this.settings.bibFolder.trim();
+        const seenPaths = new Set<string>();
+        const items: BibtexImportItem[] = [];
+        for (const imported of entries) {
+            const { entry, filePath } = prepareImportEntry(imported, folder, this.settings.appendReferencesToTitle);
+            // Two entries that map to the same note: the first one wins
+            if (seenPaths.has(filePath)) {
+                items.push({ entry, filePath, status: 'duplicate' });
+                continue;
+            }
+            seenPaths.add(filePath);
+
+            const existing = this.app.vault.getAbstractFileByPath(filePath);
+            const content = existing instanceof TFile ? await this.app.vault.read(existing) : null;
+            items.push({ entry, filePath, status: classifyImport(entry, content) });
+        }
+
+        new BibtexImportModal(this.app, source.name, items, async (strategy) => {
+            await this.importBibtexEntries(items, folder, strategy);
+        }).open();
+    }
+
+    /**
+     * Creates or updates the reference note for each imported entry and reports what happened
+     */
+    private async importBibtexEntries(items: BibtexImportItem[], folder: string, strategy: ImportConflictStrategy): Promise<void> {
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+        let failed = 0;
+
+        try {
+            if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+                await this.app.vault.createFolder(folder);
+            }
+        } catch (error) {
+            console.error(`Could not create ${folder}`, error);
+            new Notice(`Could not import bibtex: the folder ${folder} could not be created`);
+            return;
         }
+
+        // One entry that cannot be written must not stop the rest of the import
+        for (const item of items) {
+            try {
+                const existing = this.app.vault.getAbstractFileByPath(item.filePath);
+                if (item.status === 'duplicate' || item.status === 'unchanged') {
+                    skipped++;
+                } else if (!existing) {
+                    const variables = { ...getBibtexVariables(item.entry), sourceNote: null, blockId: null, page: null };
+                    await this.app.vault.create(item.filePath, this.buildReferenceNote(item.entry, item.entry.raw, variables));
+                    created++;
+                } else if (existing instanceof TFile) {
+                    let changed = false;
+                    await this.app.vault.process(existing, content => {
+                        const resolved = resolveImportConflict(content, item.entry, strategy);
+                        changed = resolved !== null;
+                        return resolved ?? content;
+                    });
+                    if (changed) updated++;
+                    else skipped++;
+                } else {
+                    skipped++;
+                }
+            } catch (error) {
+                console.error(`Could not import ${item.entry.key} to ${item.filePath}`, error);
+                failed++;
+            }
+        }
+
+        const failures = failed > 0 ? `, ${failed} failed (see the developer console)` : '';
+        new Notice(`Imported bibtex: ${created} created, ${updated} updated, ${skipped} skipped${failures}`);
     }
 
     /**
      * Appends a citation link to an existing reference file
      */
-    private async appendCitationToFile(abstractFile: TAbstractFile, linkBack: string): Promise<void> {
+    private async appendCitationToFile(abstractFile: TAbstractFile, citationLine: string): Promise<void> {
         if (!(abstractFile instanceof TFile)) {
             new Notice(`Could not read file: not a valid file`);
             return;
         }
 
         const refNote = await this.app.vault.read(abstractFile);
-        const citationPrefix = this.settings.addNewLineBeforeLink ? '\n' : '';
-        const citationLine = `${citationPrefix}- ${linkBack}`;
         let updatedContent: string;
 
         if (refNote.includes("## Citations")) {
             updatedContent = refNote.replace(
                 /## Citations([\s\S]*?)((\n#+\s)|$)/,
                 (match: string, citations: string, followingHeading: string) => {
-                    if (!match.includes(linkBack)) {
+                    if (!match.includes(citationLine.trim())) {
                         return `## Citations\n${citations.trim()}\n${citationLine}\n${followingHeading}`;
                     }
                     return match;
@@ -239,75 +1139,435 @@ export default class LogosReferencePlugin extends Plugin {
     }
 
     /**
-     * Handles the "List BibTeX references" command
+     * Handles the "Refresh reference note properties" command.
+     * Mapped fields are overwritten from the note's BibTeX block; other properties are left alone.
+     */
+    private async handleRefreshReferenceProperties(view: MarkdownView): Promise<void> {
+        const file = view.file;
+        if (!file) {
+            new Notice("No active file");
+            return;
+        }
+
+        const [entry] = parseBibtexCodeBlocks(await this.app.vault.read(file));
+        if (!entry) {
+            new Notice("No bibtex block found in this note");
+            return;
+        }
+
+        const values = getMetadataValues(this.settings.customMetadataFields, this.settings.metadataFieldMappings, entry)
+            .filter(([, value]) => value !== null);
+        if (values.length === 0) {
+            new Notice("No properties to fill. Map your metadata categories to bibtex fields in the settings.");
+            return;
+        }
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            values.forEach(([key, value]) => {
+                frontmatter[key] = value;
+            });
+        });
+        new Notice(`Updated ${values.length} ${values.length === 1 ? 'property' : 'properties'}`);
+    }
+
+    /**
+     * Handles the "Link bible verses" commands for the selection or the whole note.
+     * Accepted links are applied in one editor transaction, so a single undo reverts them.
+     */
+    private handleLinkVersesInEditor(editor: Editor, view: MarkdownView, selectionOnly: boolean): void {
+        const text = selectionOnly ? editor.getSelection() : editor.getValue();
+        if (selectionOnly && !text) {
+            new Notice("Select some text first");
+            return;
+        }
+
+        const changes = findVerseLinks(text, this.settings.bibleTranslation);
+        if (changes.length === 0) {
+            new Notice("No unlinked bible verses found");
+            return;
+        }
+
+        const base = selectionOnly ? editor.posToOffset(editor.getCursor('from')) : 0;
+        const snapshot = editor.getValue();
+        const items: VerseLinkPreviewItem[] = changes.map(change => ({
+            filePath: view.file?.path ?? '',
+            change,
+            context: getLineContext(snapshot, base + change.offset),
+            accepted: true
+        }));
+
+        new VerseLinkPreviewModal(this.app, items, (accepted) => {
+            if (accepted.length === 0) return;
+            if (editor.getValue() !== snapshot) {
+                new Notice("The note changed while the preview was open. Please run the command again.");
+                return;
+            }
+
+            editor.transaction({
+                changes: accepted.map(item => ({
+                    from: editor.offsetToPos(base + item.change.offset),
+                    to: editor.offsetToPos(base + item.change.offset + item.change.text.length),
+                    text: item.change.replacement
+                }))
+            });
+            new Notice(`Linked ${accepted.length} bible ${accepted.length === 1 ? 'reference' : 'references'}`);
+        }).open();
+    }
+
+    /**
+     * Handles the "Link bible verses in folder" command.
+     * The previous contents are kept so the whole run can be undone with one command.
+     */
+    private async handleLinkVersesInFolder(folder: TFolder): Promise<void> {
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(f => folder.isRoot() || f.path.startsWith(`${folder.path}/`));
+
+        const snapshots = new Map<string, { file: TFile, content: string }>();
+        const items: VerseLinkPreviewItem[] = [];
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            const changes = findVerseLinks(content, this.settings.bibleTranslation);
+            if (changes.length === 0) continue;
+
+            snapshots.set(file.path, { file, content });
+            changes.forEach(change => items.push({
+                filePath: file.path,
+                change,
+                context: getLineContext(content, change.offset),
+                accepted: true
+            }));
+        }
+
+        if (items.length === 0) {
+            new Notice("No unlinked bible verses found");
+            return;
+        }
+
+        new VerseLinkPreviewModal(this.app, items, async (accepted) => {
+            const undo: FolderVerseLinkEdit[] = [];
+            let skipped = 0;
+
+            for (const [path, snapshot] of snapshots) {
+                const changes = accepted.filter(item => item.filePath === path).map(item => item.change);
+                if (changes.length === 0) continue;
+
+                const current = await this.app.vault.read(snapshot.file);
+                if (current !== snapshot.content) {
+                    skipped++;
+                    continue;
+                }
+
+                const updated = applyVerseLinks(current, changes);
+                await this.app.vault.modify(snapshot.file, updated);
+                undo.push({ file: snapshot.file, before: current, after: updated });
+            }
+
+            this.lastFolderVerseLinks = undo;
+            const skippedText = skipped > 0 ? ` (${skipped} changed while the preview was open and were skipped)` : '';
+            new Notice(`Linked bible verses in ${undo.length} ${undo.length === 1 ? 'note' : 'notes'}${skippedText}`);
+        }).open();
+    }
+
+    /**
+     * Handles the "Undo last logos paste" command: removes the pasted callouts and their
+     * Citations backlinks, deletes reference notes the paste created, and restores the block counter
+     */
+    private async handleUndoLastPaste(): Promise<void> {
+        const paste = this.lastPaste;
+        if (!paste) {
+            new Notice("Nothing to undo");
+            return;
+        }
+        this.lastPaste = null;
+
+        await this.app.vault.process(paste.file, content => removePastedText(content, paste.inserted, paste.blockIds, paste.footnotes));
+
+        // Several quotes from one book change the same note; compare against the first and last state
+        const byPath = new Map<string, { before: string | null, after: string }>();
+        paste.references.forEach(change => {
+            byPath.set(change.path, { before: byPath.get(change.path)?.before ?? change.before, after: change.after });
+        });
+        const blockIds = new Set(paste.blockIds);
+        for (const [path, change] of byPath) {
+            const reference = this.app.vault.getAbstractFileByPath(path);
+            if (!(reference instanceof TFile)) continue;
+            if (change.before === null && await this.app.vault.read(reference) === change.after) {
+                await this.app.fileManager.trashFile(reference);
+            } else {
+                await this.app.vault.process(reference, content => pruneCitationLinks(content, link =>
+                    blockIds.has(link.blockId) && linkpathMatches(link.linkpath, paste.file.path)
+                ).content);
+            }
+        }
+
+        restoreBlockCounter(this.settings.citationCounters, paste.file.path, paste.counterBefore);
+        await this.saveSettings();
+        new Notice(`Removed the last logos paste from ${paste.file.basename}`);
+    }
+
+    /**
+     * Handles the "Undo last folder verse linking" command
+     */
+    private async handleUndoFolderVerseLinks(): Promise<void> {
+        if (this.lastFolderVerseLinks.length === 0) {
+            new Notice("Nothing to undo");
+            return;
+        }
+
+        let restored = 0;
+        for (const edit of this.lastFolderVerseLinks) {
+            const current = await this.app.vault.read(edit.file);
+            // Only restore notes that have not been edited since
+            if (current === edit.after) {
+                await this.app.vault.modify(edit.file, edit.before);
+                restored++;
+            }
+        }
+
+        const skipped = this.lastFolderVerseLinks.length - restored;
+        this.lastFolderVerseLinks = [];
+        new Notice(`Restored ${restored} ${restored === 1 ? 'note' : 'notes'}${skipped > 0 ? `, ${skipped} edited since were left as they are` : ''}`);
+    }
+
+    /**
+     * Handles the "Insert bibliography" command.
+     * The bibliography is written into a managed section, so running it again replaces the previous one.
      */
     private async handleListBibtexReferences(editor: Editor, view: MarkdownView): Promise<void> {
-        const filePath = view.file?.path;
-        if (!filePath) {
+        const file = view.file;
+        if (!file) {
             new Notice("No active file");
             return;
         }
 
-        const links = await this.getAllLinksInDocument(filePath);
+        const links = this.getAllLinksInDocument(file.path);
         if (links.length === 0) {
             new Notice("No references found in the document.");
             return;
         }
 
-        const bibtexReferences = await this.getBibtexFromLinks(links);
-        if (bibtexReferences.length === 0) {
+        const entries = await this.getBibtexFromLinks(links);
+        if (entries.length === 0) {
             new Notice("No bibtex references found in linked notes");
             return;
         }
 
-        const bibtexList = bibtexReferences.join("\n\n");
-        const activeFile = this.app.workspace.getActiveFile();
+        const bibliography = formatBibliography(entries, this.settings.bibliographyStyle);
+        await this.app.vault.process(file, content => replaceBibliographySection(content, bibliography));
+        new Notice("Bibliography updated");
+    }
 
-        if (activeFile instanceof TFile) {
-            const content = await this.app.vault.read(activeFile);
-            const updatedContent = `${content}\n\n## Bibliography\n${bibtexList}`;
-            await this.app.vault.modify(activeFile, updatedContent);
-            new Notice("References added to the document");
-        } else {
-            new Notice("Could not read active file: not a valid file");
+    /**
+     * Handles the "Export references used in folder" command
+     */
+    private async handleExportFolderReferences(folder: TFolder): Promise<void> {
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(f => folder.isRoot() || f.path.startsWith(`${folder.path}/`));
+        await this.handleExportReferences(files, folder.isRoot() ? 'references' : folder.name);
+    }
+
+    /**
+     * Writes the references linked from the given notes, or every reference note when `files` is null,
+     * to `<name>.bib` and `<name>.json` (CSL-JSON) in the export folder
+     */
+    private async handleExportReferences(files: TFile[] | null, name: string): Promise<void> {
+        const paths = files
+            ? collectLinkedPaths(files.map(file => file.path), path => this.getResolvedLinks(path), this.settings.linkDepth)
+            : this.getReferenceNotes().map(file => file.path);
+        const entries = await this.getBibtexFromLinks(paths);
+
+        const exported = collectExportEntries(entries);
+        if (exported.length === 0) {
+            new Notice("No bibtex references found to export");
+            return;
         }
+
+        const basePath = generateNotePath(name, this.settings.exportFolder.trim()).replace(/\.md$/, '');
+        await this.writeVaultFile(`${basePath}.bib`, formatBibFile(exported));
+        await this.writeVaultFile(`${basePath}.json`, formatCslJson(exported));
+        new Notice(`Exported ${exported.length} ${exported.length === 1 ? 'reference' : 'references'} to ${basePath}.bib and ${basePath}.json`);
     }
 
     /**
-     * Gets all links in a document
+     * Handles the "Export current note for pandoc" command.
+     * Writes a Pandoc-ready copy of the note and a .bib file with exactly the references it cites.
      */
-    async getAllLinksInDocument(filePath: string): Promise<string[]> {
-        const abstractFile = this.app.vault.getAbstractFileByPath(filePath);
-        if (!(abstractFile instanceof TFile)) return await Promise.resolve([]);
+    private async handleExportForPandoc(file: TFile): Promise<void> {
+        const exportFolder = this.settings.exportFolder.trim();
+        const basePath = generateNotePath(file.basename, exportFolder).replace(/\.md$/, '');
+        if (!exportFolder || `${basePath}.md` === file.path) {
+            new Notice("Choose an export folder in the settings, so the export does not overwrite the note");
+            return;
+        }
 
-        const cache = this.app.metadataCache.getFileCache(abstractFile);
-        if (!cache || !cache.links) return [];
+        // Only an earlier export of this note, and its .bib file, may be overwritten
+        const bibName = `${basePath.split('/').pop() ?? file.basename}.bib`;
+        const existing = this.app.vault.getAbstractFileByPath(`${basePath}.md`);
+        const markdown = existing ? (existing instanceof TFile ? await this.app.vault.read(existing) : '') : null;
+        const conflict = findPandocExportConflict(markdown, !!this.app.vault.getAbstractFileByPath(`${basePath}.bib`), bibName);
+        if (conflict) {
+            new Notice(`${basePath}.${conflict === 'bib' ? 'bib' : 'md'} already exists and was not written by this export, so nothing was exported`);
+            return;
+        }
+
+        // Each callout is cited with the key of the reference note it links to
+        const content = await this.app.vault.read(file);
+        const citeKeys = new Map<string, string | null>();
+        for (const callout of findLogosCallouts(content)) {
+            const link = callout.referenceLink;
+            if (!link || citeKeys.has(link)) continue;
+            const target = this.app.metadataCache.getFirstLinkpathDest(link, file.path);
+            const [entry] = target ? parseBibtexCodeBlocks(await this.app.vault.cachedRead(target)) : [];
+            citeKeys.set(link, entry ? normalizeCiteKey(entry.key) : null);
+        }
 
-        return Array.from(new Set(cache.links.map(link => link.link)));
+        const converted = convertNoteForPandoc(content, link => citeKeys.get(link) ?? null);
+        const library = collectExportEntries(await this.getBibtexFromLinks(this.getReferenceNotes().map(note => note.path)));
+        const cited = library.filter(entry => converted.citeKeys.includes(entry.key));
+
+        await this.writeVaultFile(`${basePath}.md`, setPandocBibliography(converted.content, bibName));
+        await this.writeVaultFile(`${basePath}.bib`, formatBibFile(cited));
+
+        const missing = converted.citeKeys.length - cited.length;
+        new Notice(`Exported ${basePath}.md with ${cited.length} ${cited.length === 1 ? 'reference' : 'references'}${missing > 0 ? ` (${missing} cite keys not found in reference notes)` : ''}`);
+    }
+
+    /**
+     * Creates a file, or overwrites it if it already exists, creating its folder if needed
+     */
+    private async writeVaultFile(path: string, content: string): Promise<void> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+            return;
+        }
+
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        await this.app.vault.create(path, content);
+    }
+
+    /**
+     * Gets the notes a document links to, following links from those notes up to the link depth setting
+     */
+    getAllLinksInDocument(filePath: string): string[] {
+        return collectLinkedPaths([filePath], path => this.getResolvedLinks(path), this.settings.linkDepth);
+    }
+
+    /**
+     * Resolves the links, embeds and frontmatter links of a note to the notes they point to.
+     * Aliases and headings are dropped before resolving, and results are cached until the metadata changes.
+     */
+    private getResolvedLinks(filePath: string): string[] {
+        const cached = this.resolvedLinkCache.get(filePath);
+        if (cached) return cached;
+
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+        const references = [...cache?.links ?? [], ...cache?.embeds ?? [], ...cache?.frontmatterLinks ?? []];
+
+        const targets = new Set<string>();
+        references.forEach(reference => {
+            const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(reference.link), filePath);
+            if (target?.extension === 'md') targets.add(target.path);
+        });
+
+        const resolved = Array.from(targets);
+        this.resolvedLinkCache.set(filePath, resolved);
+        return resolved;
     }
 
     /**
      * Extracts BibTeX content from linked notes
      */
-    async getBibtexFromLinks(links: string[]): Promise<string[]> {
-        const bibtexReferences: string[] = [];
+    async getBibtexFromLinks(links: string[]): Promise<BibtexEntry[]> {
+        const bibtexReferences: BibtexEntry[] = [];
         for (const link of links) {
             const file = this.app.vault.getAbstractFileByPath(link);
             if (file instanceof TFile) {
-                const content = await this.app.vault.read(file);
-                const bibtexMatch = content.match(/```bibtex[\s\S]*?```/);
-
-                if (bibtexMatch) {
-                    const bibtexContent = bibtexMatch[0].replace(/```bibtex|```/g, '').trim();
-                    bibtexReferences.push(bibtexContent);
-                }
+                const content = await this.app.vault.cachedRead(file);
+                bibtexReferences.push(...parseBibtexCodeBlocks(content));
             }
         }
         return bibtexReferences;
     }
 
+    /**
+     * Indexes every note for the scripture index and the quote library, then keeps both current as notes change
+     */
+    private async buildVaultIndexes(): Promise<void> {
+        this.scriptureIndex.clear();
+        this.quoteLibrary.clear();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            this.indexFile(file, await this.app.vault.cachedRead(file));
+        }
+        this.refreshIndexViews();
+
+        const reindex = async (file: TAbstractFile) => {
+            if (!(file instanceof TFile) || file.extension !== 'md') return;
+            this.indexFile(file, await this.app.vault.cachedRead(file));
+            this.refreshIndexViews();
+        };
+
+        this.registerEvent(this.app.vault.on('create', reindex));
+        this.registerEvent(this.app.vault.on('modify', reindex));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            this.scriptureIndex.removeFile(file.path);
+            this.quoteLibrary.removeFile(file.path);
+            this.refreshIndexViews();
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.scriptureIndex.renameFile(oldPath, file.path);
+            this.quoteLibrary.renameFile(oldPath, file.path);
+            this.refreshIndexViews();
+        }));
+    }
+
+    private indexFile(file: TFile, content: string): void {
+        this.scriptureIndex.indexFile(file.path, content);
+        this.quoteLibrary.indexFile(file.path, content, file.stat.mtime);
+    }
+
+    /**
+     * Re-renders open scripture index and quote library views, at most once per half second
+     */
+    private refreshIndexViews = debounce(() => {
+        const { workspace } = this.app;
+        [...workspace.getLeavesOfType(SCRIPTURE_INDEX_VIEW_TYPE), ...workspace.getLeavesOfType(QUOTE_LIBRARY_VIEW_TYPE)].forEach(leaf => {
+            if (leaf.view instanceof ScriptureIndexView || leaf.view instanceof QuoteLibraryView) {
+                leaf.view.refresh();
+            }
+        });
+    }, 500, true);
+
+    /**
+     * Opens a side panel view in the right sidebar, or reveals it if already open
+     */
+    async activateView(viewType: string): Promise<void> {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(viewType)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            await rightLeaf.setViewState({ type: viewType, active: true });
+            leaf = rightLeaf;
+        }
+        await workspace.revealLeaf(leaf);
+    }
+
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, (await this.loadData() as LogosPluginSettings));
+        const data = (await this.loadData() ?? {}) as Partial<LogosPluginSettings> & LegacyTemplateSettings;
+        const { addNewLineBeforeLink, addNewLineAfterCallout, includeReflyLink, ...saved } = data;
+
+        // The old layout toggles become the equivalent templates
+        const legacy = { addNewLineBeforeLink, addNewLineAfterCallout, includeReflyLink };
+        const migrated = saved.calloutTemplate === undefined ? templatesFromLegacySettings(legacy) : {};
+
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, migrated, saved);
+        // Turabian was a separate style that rendered exactly like Chicago
+        if ((this.settings.bibliographyStyle as string) === 'turabian') this.settings.bibliographyStyle = 'chicago';
     }
 
     async saveSettings() {
@@ -5,6 +5,10 @@
 import { App, Plugin, PluginSettingTab, Setting } from 'obsidian';
 import { FolderSuggest } from './ui/folder-suggest';
 import { LogosPluginSettings } from './types';
+import { MetadataFieldType } from './utils/frontmatter';
+import { BIBLIOGRAPHY_STYLES, BibliographyStyle } from './utils/bibliography';
+import { DEFAULT_CALLOUT_TEMPLATE, DEFAULT_CITATION_TEMPLATE, DEFAULT_REFERENCE_NOTE_TEMPLATE, TEMPLATE_PLACEHOLDERS, TEMPLATE_PREVIEW_VARIABLES } from './constants/templates';
+import { renderTemplate, TemplateVariables, validateTemplate } from './utils/template-engine';
 
 interface PluginWithSettings extends Plugin {
     settings: LogosPluginSettings;
@@ -43,62 +47,90 @@ export class LogosPluginSettingTab extends PluginSettingTab {
             });
 
         new Setting(this.containerEl)
-            .setName("Callout title")
-            .setDesc("The title for the callout block (default is \"logos reference\")")
-            .addText((text) =>
-                text
-                    .setPlaceholder("Example: logos reference")
-                    .setValue(this.plugin.settings.customCalloutTitle)
+            .setName("Export folder")
+            .setDesc("Folder for exported bibliography files. Leave empty to use the vault root; exports for pandoc need a folder.")
+            .addSearch((text) => {
+                new FolderSuggest(this.app, text.inputEl);
+                text.setPlaceholder("Example: exports")
+                    .setValue(this.plugin.settings.exportFolder)
                     .onChange(async (value) => {
-                        this.plugin.settings.customCalloutTitle = value;
+                        this.plugin.settings.exportFolder = value.trim().replace(/\/$/, "");
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(this.containerEl)
+            .setName("Bibliography style")
+            .setDesc("Citation style for the bibliography of references linked from a note")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions(BIBLIOGRAPHY_STYLES)
+                    .setValue(this.plugin.settings.bibliographyStyle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.bibliographyStyle = value as BibliographyStyle;
                         await this.plugin.saveSettings();
                     })
             );
 
         new Setting(this.containerEl)
-            .setName("Append \"references\" to note title")
-            .setDesc("New book notes will be named \"{Book Title} - references\" instead of just the cite key")
-            .addToggle((toggle) =>
-                toggle
-                    .setValue(this.plugin.settings.appendReferencesToTitle)
+            .setName("Link depth")
+            .setDesc("How many levels of links to follow when collecting references for a bibliography or export. At 2, a chapter note also collects the references of the section notes it links to.")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions({ "1": "1", "2": "2", "3": "3", "4": "4", "5": "5" })
+                    .setValue(String(this.plugin.settings.linkDepth))
                     .onChange(async (value) => {
-                        this.plugin.settings.appendReferencesToTitle = value;
+                        this.plugin.settings.linkDepth = parseInt(value, 10);
                         await this.plugin.saveSettings();
                     })
             );
 
         new Setting(this.containerEl)
-            .setName("Add newline before linked note")
-            .setDesc("Adds an extra blank line before the linked note at the bottom of citations")
-            .addToggle((toggle) =>
-                toggle
-                    .setValue(this.plugin.settings.addNewLineBeforeLink)
+            .setName("Inbox note")
+            .setDesc("Note that captured quotes are added to when a capture link does not name a note")
+            .addText((text) =>
+                text
+                    .setPlaceholder("Example: logos inbox")
+                    .setValue(this.plugin.settings.inboxNote)
                     .onChange(async (value) => {
-                        this.plugin.settings.addNewLineBeforeLink = value;
+                        this.plugin.settings.inboxNote = value.trim();
                         await this.plugin.saveSettings();
                     })
             );
 
         new Setting(this.containerEl)
-            .setName("Add space after callout")
-            .setDesc("Adds an extra blank line after the callout block so that there is space before what you type next")
+            .setName("Callout title")
+            .setDesc("The title for the callout block (default is \"logos reference\")")
+            .addText((text) =>
+                text
+                    .setPlaceholder("Example: logos reference")
+                    .setValue(this.plugin.settings.customCalloutTitle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.customCalloutTitle = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(this.containerEl)
+            .setName("Review before inserting")
+            .setDesc("Show the parsed quote, cite key, title, page and ref.ly link for correction before the paste command writes anything")
             .addToggle((toggle) =>
                 toggle
-                    .setValue(this.plugin.settings.addNewLineAfterCallout)
+                    .setValue(this.plugin.settings.reviewBeforeInsert)
                     .onChange(async (value) => {
-                        this.plugin.settings.addNewLineAfterCallout = value;
+                        this.plugin.settings.reviewBeforeInsert = value;
                         await this.plugin.saveSettings();
                     })
             );
 
         new Setting(this.containerEl)
-            .setName("Include Logos resource link")
-            .setDesc("When enabled, the Logos ref.ly hyperlink will be included above the note link")
+            .setName("Append \"references\" to note title")
+            .setDesc("New book notes will be named \"{Book Title} - references\" instead of just the cite key")
             .addToggle((toggle) =>
                 toggle
-                    .setValue(this.plugin.settings.includeReflyLink)
+                    .setValue(this.plugin.settings.appendReferencesToTitle)
                     .onChange(async (value) => {
-                        this.plugin.settings.includeReflyLink = value;
+                        this.plugin.settings.appendReferencesToTitle = value;
                         await this.plugin.saveSettings();
                     })
             );
@@ -154,7 +186,7 @@ export class LogosPluginSettingTab extends PluginSettingTab {
             let addFieldInput: HTMLInputElement;
             new Setting(this.containerEl)
                 .setName("Add metadata category")
-                .setDesc("Enter a category name (key) to add it to the note properties")
+                .setDesc("Enter a category name (key) to add it to the note properties. Each category can be filled from a bibtex field such as author or publisher, or a template such as {{year}}, with a default for when the field is missing.")
                 .addText((text) => {
                     text.setPlaceholder("Example: related notes")
                         .setDisabled(false);
@@ -241,11 +273,44 @@ export class LogosPluginSettingTab extends PluginSettingTab {
                     });
                 });
 
+                const mappings = this.plugin.settings.metadataFieldMappings;
+                const mapping = () => mappings[field] ?? (mappings[field] = { source: "", type: "text", defaultValue: "" });
+
+                setting
+                    .addText((text) =>
+                        text
+                            .setPlaceholder("Bibtex field")
+                            .setValue(mappings[field]?.source ?? "")
+                            .onChange(async (value) => {
+                                mapping().source = value;
+                                await this.plugin.saveSettings();
+                            })
+                    )
+                    .addDropdown((dropdown) =>
+                        dropdown
+                            .addOptions({ text: "Text", list: "List", date: "Date" })
+                            .setValue(mappings[field]?.type ?? "text")
+                            .onChange(async (value) => {
+                                mapping().type = value as MetadataFieldType;
+                                await this.plugin.saveSettings();
+                            })
+                    )
+                    .addText((text) =>
+                        text
+                            .setPlaceholder("Default value")
+                            .setValue(mappings[field]?.defaultValue ?? "")
+                            .onChange(async (value) => {
+                                mapping().defaultValue = value;
+                                await this.plugin.saveSettings();
+                            })
+                    );
+
                 setting.addButton((button) => {
                     button.setButtonText("Remove")
                         .setWarning()
                         .onClick(async () => {
                             this.plugin.settings.customMetadataFields.splice(index, 1);
+                            delete mappings[field];
                             await this.plugin.saveSettings();
                             this.display();
                         });
@@ -253,9 +318,53 @@ export class LogosPluginSettingTab extends PluginSettingTab {
             });
         }
 
+        new Setting(this.containerEl)
+            .setName("Templates")
+            .setDesc(`Placeholders: ${TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(", ")}. Use {{#if page}}...{{else}}...{{/if}} or {{#unless page}}...{{/unless}} for optional parts.`)
+            .setHeading();
+
+        this.addTemplateSetting(
+            "Callout template",
+            "The block inserted into your note for each quote",
+            "calloutTemplate",
+            DEFAULT_CALLOUT_TEMPLATE,
+            TEMPLATE_PREVIEW_VARIABLES
+        );
+
+        this.addTemplateSetting(
+            "Citation entry template",
+            "The line added under \"citations\" in the reference note",
+            "citationTemplate",
+            DEFAULT_CITATION_TEMPLATE,
+            TEMPLATE_PREVIEW_VARIABLES
+        );
+
+        this.addTemplateSetting(
+            "Reference note template",
+            "The body of a new reference note. Also supports {{bibtex}} and {{citation}}.",
+            "referenceNoteTemplate",
+            DEFAULT_REFERENCE_NOTE_TEMPLATE,
+            {
+                ...TEMPLATE_PREVIEW_VARIABLES,
+                citation: renderTemplate(this.plugin.settings.citationTemplate, TEMPLATE_PREVIEW_VARIABLES)
+            }
+        );
+
+        new Setting(this.containerEl)
+            .setName("Reconcile citations on startup")
+            .setDesc("When enabled, missing, dead and duplicate backlinks in the citations lists of reference notes are fixed across the vault each time Obsidian starts")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.reconcileCitationsOnStartup)
+                    .onChange(async (value) => {
+                        this.plugin.settings.reconcileCitationsOnStartup = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         new Setting(this.containerEl)
             .setName("Retain formatting")
-            .setDesc("When enabled, italics, bold, and superscript formatting from logos will be preserved")
+            .setDesc("When enabled, italics, bold, small caps, verse numbers and footnote markers from logos will be preserved")
             .addToggle((toggle) =>
                 toggle
                     .setValue(this.plugin.settings.retainFormatting)
@@ -278,4 +387,48 @@ export class LogosPluginSettingTab extends PluginSettingTab {
                     })
             );
     }
+
+    /**
+     * Adds a template editor with a live preview rendered from sample values
+     */
+    private addTemplateSetting(
+        name: string,
+        desc: string,
+        key: "calloutTemplate" | "citationTemplate" | "referenceNoteTemplate",
+        defaultValue: string,
+        previewVariables: TemplateVariables
+    ): void {
+        const setting = new Setting(this.containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addTextArea((text) => {
+                text.setValue(this.plugin.settings[key])
+                    .onChange(async (value) => {
+                        this.plugin.settings[key] = value;
+                        updatePreview(value);
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 8;
+                text.inputEl.addClass("logos-template-input");
+            })
+            .addExtraButton((button) =>
+                button
+                    .setIcon("rotate-ccw")
+                    .setTooltip("Restore default")
+                    .onClick(async () => {
+                        this.plugin.settings[key] = defaultValue;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+        setting.settingEl.addClass("logos-template-setting");
+
+        const errorEl = this.containerEl.createDiv({ cls: "logos-template-error" });
+        const previewEl = this.containerEl.createEl("pre", { cls: "logos-template-preview" });
+        const updatePreview = (template: string) => {
+            previewEl.setText(renderTemplate(template, previewVariables));
+            errorEl.setText(validateTemplate(template).join(". "));
+        };
+        updatePreview(this.plugin.settings[key]);
+    }
 }
@@ -1,34 +1,52 @@
+import { DEFAULT_CALLOUT_TEMPLATE, DEFAULT_CITATION_TEMPLATE, DEFAULT_REFERENCE_NOTE_TEMPLATE } from './constants/templates';
+import { MetadataFieldMapping } from './utils/frontmatter';
+import { BibliographyStyle } from './utils/bibliography';
+
 /**
  * Settings interface for the Logos References Plugin
  */
 export interface LogosPluginSettings {
     bibFolder: string;
+    exportFolder: string;
+    bibliographyStyle: BibliographyStyle;
+    linkDepth: number;
+    inboxNote: string;
+    reviewBeforeInsert: boolean;
     citationCounters: Record<string, number>;
     customCalloutTitle: string;
     appendReferencesToTitle: boolean;
-    addNewLineBeforeLink: boolean;
     autoDetectBibleVerses: boolean;
     bibleTranslation: string;
     useCustomMetadata: boolean;
     customMetadataFields: string[];
+    metadataFieldMappings: Record<string, MetadataFieldMapping>;
     showRibbonIcon: boolean;
     retainFormatting: boolean;
-    addNewLineAfterCallout: boolean;
-    includeReflyLink: boolean;
+    calloutTemplate: string;
+    citationTemplate: string;
+    referenceNoteTemplate: string;
+    reconcileCitationsOnStartup: boolean;
 }
 
 export const DEFAULT_SETTINGS: LogosPluginSettings = {
     bibFolder: '',
+    exportFolder: '',
+    bibliographyStyle: 'sbl',
+    linkDepth: 1,
+    inboxNote: 'Logos inbox',
+    reviewBeforeInsert: false,
     citationCounters: {},
     customCalloutTitle: '',
     appendReferencesToTitle: false,
-    addNewLineBeforeLink: false,
     autoDetectBibleVerses: false,
     bibleTranslation: 'esv',
     useCustomMetadata: false,
     customMetadataFields: [],
+    metadataFieldMappings: {},
     showRibbonIcon: true,
     retainFormatting: true,
-    addNewLineAfterCallout: false,
-    includeReflyLink: false,
+    calloutTemplate: DEFAULT_CALLOUT_TEMPLATE,
+    citationTemplate: DEFAULT_CITATION_TEMPLATE,
+    referenceNoteTemplate: DEFAULT_REFERENCE_NOTE_TEMPLATE,
+    reconcileCitationsOnStartup: false,
 };
@@ -0,0 +1,45 @@
+/**
+ * Modal for choosing a .bib file from the vault, or from the computer through the file picker
+ */
+
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+/**
+ * A .bib file in the vault, or one picked from the computer
+ */
+export type BibFileSource = TFile | File;
+
+const BROWSE = "browse";
+
+export class BibFilePickerModal extends FuzzySuggestModal<TFile | typeof BROWSE> {
+    constructor(app: App, private onChoose: (source: BibFileSource) => void) {
+        super(app);
+        this.setPlaceholder("Choose a .bib file");
+    }
+
+    getItems(): Array<TFile | typeof BROWSE> {
+        const files = this.app.vault.getFiles()
+            .filter(f => f.extension.toLowerCase() === "bib")
+            .sort((a, b) => a.path.localeCompare(b.path));
+        return [...files, BROWSE];
+    }
+
+    getItemText(item: TFile | typeof BROWSE): string {
+        return item === BROWSE ? "Choose a file from your computer…" : item.path;
+    }
+
+    onChooseItem(item: TFile | typeof BROWSE): void {
+        if (item !== BROWSE) {
+            this.onChoose(item);
+            return;
+        }
+
+        // Not attached to the document, so nothing is left behind when the dialog is cancelled
+        const input = createEl("input", { type: "file", attr: { accept: ".bib,.bibtex,.txt" } });
+        input.addEventListener("change", () => {
+            const file = input.files?.[0];
+            if (file) this.onChoose(file);
+        });
+        input.click();
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * Summary of a .bib import before anything is written
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { BibtexEntry } from "../utils/bibtex-parser";
+import { ImportConflictStrategy, ImportStatus } from "../utils/bibtex-import";
+
+export interface BibtexImportItem {
+    entry: BibtexEntry;
+    filePath: string;
+    /** `duplicate` marks a later entry that maps to the same note as an earlier one */
+    status: ImportStatus | "duplicate";
+}
+
+/**
+ * Shows how many notes will be created or are already up to date, and asks how to handle
+ * notes whose BibTeX differs from the imported entry
+ */
+export class BibtexImportModal extends Modal {
+    private confirmed = false;
+    private strategy: ImportConflictStrategy = "merge";
+
+    constructor(
+        app: App,
+        private sourceName: string,
+        private items: BibtexImportItem[],
+        private onConfirm: (strategy: ImportConflictStrategy) => void | Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText(`Import ${this.sourceName}`);
+
+        const count = (status: BibtexImportItem["status"]) => this.items.filter(item => item.status === status).length;
+        const conflicts = this.items.filter(item => item.status === "conflict");
+        const list = contentEl.createEl("ul");
+        list.createEl("li", { text: `${count("new")} new reference notes` });
+        list.createEl("li", { text: `${count("unchanged")} already up to date` });
+        list.createEl("li", { text: `${conflicts.length} differ from the existing note` });
+        if (count("duplicate") > 0) {
+            list.createEl("li", { text: `${count("duplicate")} map to the same note as an earlier entry and will be skipped` });
+        }
+
+        if (conflicts.length > 0) {
+            new Setting(contentEl)
+                .setName("When a note has different bibtex")
+                .setDesc(conflicts.map(item => item.filePath).join(", "))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({
+                        merge: "Add missing fields",
+                        replace: "Replace with imported",
+                        skip: "Keep existing"
+                    })
+                    .setValue(this.strategy)
+                    .onChange(value => {
+                        this.strategy = value as ImportConflictStrategy;
+                    }));
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Import")
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (this.confirmed) {
+            void this.onConfirm(this.strategy);
+        }
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Report of the Citations entries that are out of sync with the callouts
+ */
+
+import { App, ButtonComponent, Modal, Notice, Setting } from "obsidian";
+import { CitationIssue, CitationIssueKind, createRetryableFix } from "../utils/citation-audit";
+
+const SECTIONS: Array<{ kind: CitationIssueKind, title: string, desc: string, action: string }> = [
+    { kind: "missing", title: "Missing backlinks", desc: "Callouts that are not listed in their reference note.", action: "Add" },
+    { kind: "dead", title: "Dead backlinks", desc: "Citations entries whose note or block ID no longer exists.", action: "Remove" },
+    { kind: "duplicate", title: "Duplicate backlinks", desc: "Callouts listed more than once in the same reference note.", action: "Remove" }
+];
+
+/**
+ * Lists each problem with a button that fixes it, plus one that fixes them all
+ */
+export class CitationReportModal extends Modal {
+    constructor(
+        app: App,
+        private issues: CitationIssue[],
+        private onFix: (issue: CitationIssue) => Promise<boolean>
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText("Reconcile citations");
+
+        if (this.issues.length === 0) {
+            contentEl.createEl("p", { text: "Every callout is listed in its reference note, and every citation points to a callout." });
+            return;
+        }
+
+        const fixers: Array<() => Promise<boolean>> = [];
+        new Setting(contentEl)
+            .setDesc(`${this.issues.length} ${this.issues.length === 1 ? "problem" : "problems"} found.`)
+            .addButton(button => button
+                .setButtonText("Fix all")
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    let failed = false;
+                    for (const fix of fixers) {
+                        if (!await fix()) failed = true;
+                    }
+                    // Let the remaining problems be tried again
+                    if (failed) button.setDisabled(false);
+                }));
+
+        const listEl = contentEl.createDiv({ cls: "logos-preview-list" });
+        SECTIONS.forEach(section => {
+            const issues = this.issues.filter(issue => issue.kind === section.kind);
+            if (issues.length === 0) return;
+
+            new Setting(listEl).setName(`${section.title} (${issues.length})`).setDesc(section.desc).setHeading();
+            issues.forEach(issue => {
+                let fixButton: ButtonComponent | null = null;
+                const fix = createRetryableFix(
+                    () => this.onFix(issue),
+                    () => { fixButton?.setDisabled(true); },
+                    (outcome, error) => {
+                        if (outcome === "fixed") {
+                            fixButton?.setButtonText("Fixed");
+                            return;
+                        }
+                        if (outcome === "error") {
+                            console.error("Failed to fix citation", error);
+                            new Notice(`Could not fix ${issue.referencePath}: ${error instanceof Error ? error.message : String(error)}`);
+                        }
+                        fixButton?.setButtonText("Retry").setDisabled(false);
+                    }
+                );
+                fixers.push(fix);
+
+                const source = issue.sourcePath ?? issue.link?.linkpath ?? "";
+                new Setting(listEl)
+                    .setName(`${source}#^${issue.blockId}`)
+                    .setDesc(`In ${issue.referencePath}`)
+                    .addButton(button => {
+                        fixButton = button;
+                        button.setButtonText(section.action)
+                            .onClick(() => {
+                                void fix();
+                            });
+                    });
+            });
+        });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Review of the parsed citations before the paste command writes anything
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { ParsedClipboard } from "../utils/clipboard-parser";
+import { applyCitationFields, CitationFields, getCitationFields } from "../utils/citation-review";
+
+/**
+ * What a citation would produce: the callout and the reference note it goes into
+ */
+export interface CitationPreview {
+    callout: string;
+    referenceNotePath: string;
+}
+
+/**
+ * Shows each citation's fields for correction, with a live preview of the callout and reference note path
+ */
+export class CitationReviewModal extends Modal {
+    private confirmed = false;
+    private fields: CitationFields[];
+
+    constructor(
+        app: App,
+        private citations: ParsedClipboard[],
+        private preview: (citation: ParsedClipboard, index: number) => CitationPreview,
+        private onConfirm: (citations: ParsedClipboard[]) => void | Promise<void>
+    ) {
+        super(app);
+        this.fields = citations.map(citation => getCitationFields(citation));
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText(this.citations.length === 1 ? "Review logos reference" : `Review ${this.citations.length} logos references`);
+
+        const listEl = contentEl.createDiv({ cls: "logos-preview-list" });
+        this.fields.forEach((fields, index) => this.renderCitation(listEl, fields, index));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Insert")
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (this.confirmed) {
+            void this.onConfirm(this.getCitations());
+        }
+    }
+
+    private renderCitation(parentEl: HTMLElement, fields: CitationFields, index: number): void {
+        if (this.citations.length > 1) {
+            new Setting(parentEl).setName(`Quote ${index + 1}`).setHeading();
+        }
+
+        const previewEl = createEl("pre", { cls: "logos-template-preview" });
+        const pathEl = createDiv({ cls: "setting-item-description" });
+        const updatePreview = () => {
+            try {
+                const preview = this.preview(applyCitationFields(this.citations[index], fields), index);
+                previewEl.setText(preview.callout);
+                pathEl.setText(`Reference note: ${preview.referenceNotePath}`);
+            } catch (error) {
+                previewEl.setText(error instanceof Error ? error.message : String(error));
+                pathEl.setText("");
+            }
+        };
+
+        new Setting(parentEl)
+            .setName("Quote")
+            .addTextArea(text => {
+                text.setValue(fields.quote).onChange(value => {
+                    fields.quote = value;
+                    updatePreview();
+                });
+                text.inputEl.rows = 5;
+                text.inputEl.addClass("logos-template-input");
+            });
+
+        const addField = (name: string, key: Exclude<keyof CitationFields, "quote">) => {
+            new Setting(parentEl)
+                .setName(name)
+                .addText(text => text
+                    .setValue(fields[key])
+                    .onChange(value => {
+                        fields[key] = value;
+                        updatePreview();
+                    }));
+        };
+        addField("Cite key", "citeKey");
+        addField("Title", "title");
+        addField("Page", "page");
+        addField("Ref.ly link", "reflyLink");
+
+        parentEl.appendChild(pathEl);
+        parentEl.appendChild(previewEl);
+        updatePreview();
+    }
+
+    private getCitations(): ParsedClipboard[] {
+        return this.citations.map((citation, index) => applyCitationFields(citation, this.fields[index]));
+    }
+}
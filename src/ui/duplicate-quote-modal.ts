@@ -0,0 +1,70 @@
+/**
+ * Warning shown when a pasted quote is already somewhere in the vault
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+export interface DuplicateQuoteItem {
+    /** The start of the pasted quote, for display */
+    quote: string;
+    /** Where the same quote already lives */
+    existingPath: string;
+    page: string | null;
+    /** True to insert an embed of the existing block instead of a new callout */
+    embed: boolean;
+}
+
+/**
+ * Lets each duplicate be embedded from where it already is, or pasted again as a new callout
+ */
+export class DuplicateQuoteModal extends Modal {
+    private confirmed = false;
+
+    constructor(
+        app: App,
+        private items: DuplicateQuoteItem[],
+        private onConfirm: (items: DuplicateQuoteItem[]) => void | Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText(this.items.length === 1 ? "Quote already in vault" : "Quotes already in vault");
+        contentEl.createEl("p", {
+            text: "Embedding the existing quote links to it instead of adding a new callout and another citations entry."
+        });
+
+        const listEl = contentEl.createDiv({ cls: "logos-preview-list" });
+        this.items.forEach(item => {
+            new Setting(listEl)
+                .setName(item.quote)
+                .setDesc(`Already in ${item.existingPath}${item.page ? `, p. ${item.page}` : ""}`)
+                .addToggle(toggle => toggle
+                    .setTooltip("Embed the existing quote")
+                    .setValue(item.embed)
+                    .onChange(value => {
+                        item.embed = value;
+                    }));
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Paste")
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (this.confirmed) {
+            void this.onConfirm(this.items);
+        }
+    }
+}
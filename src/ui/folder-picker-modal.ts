@@ -0,0 +1,24 @@
+/**
+ * Modal for choosing a vault folder from the command palette
+ */
+
+import { App, FuzzySuggestModal, TFolder } from "obsidian";
+
+export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
+    constructor(app: App, private onChoose: (folder: TFolder) => void) {
+        super(app);
+        this.setPlaceholder("Choose a folder");
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.path;
+    }
+
+    onChooseItem(folder: TFolder): void {
+        this.onChoose(folder);
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Text area for entering a Logos clipboard by hand, for when the clipboard cannot be read
+ */
+
+import { App, Modal, Setting, TextAreaComponent } from "obsidian";
+
+export class ManualPasteModal extends Modal {
+    private confirmed = false;
+    private text = "";
+
+    constructor(
+        app: App,
+        private onSubmit: (text: string) => void | Promise<void>,
+        private reason: string | null = null
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText("Paste logos reference");
+        contentEl.createEl("p", {
+            text: `${this.reason ? `${this.reason} ` : ""}Paste the passage copied from logos, with its citation, below.`
+        });
+
+        const textArea = new TextAreaComponent(contentEl)
+            .setPlaceholder("Quote text followed by its bibtex citation")
+            .onChange(value => {
+                this.text = value;
+            });
+        textArea.inputEl.addClass("logos-manual-paste-input");
+        textArea.inputEl.rows = 12;
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Paste")
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = this.text.trim() !== "";
+                    this.close();
+                }));
+
+        textArea.inputEl.focus();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (this.confirmed) {
+            void this.onSubmit(this.text);
+        }
+    }
+}
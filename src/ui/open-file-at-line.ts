@@ -0,0 +1,22 @@
+/**
+ * Opens a note from a side panel with the cursor on a given line
+ */
+
+import { App, MarkdownView, TFile } from "obsidian";
+
+/**
+ * Opens the note in the current tab and scrolls the line to the middle; does nothing if the note is gone
+ */
+export async function openFileAtLine(app: App, path: string, line: number): Promise<void> {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+
+    const leaf = app.workspace.getLeaf(false);
+    await leaf.openFile(file, { eState: { line } });
+
+    if (leaf.view instanceof MarkdownView) {
+        const position = { line, ch: 0 };
+        leaf.view.editor.setCursor(position);
+        leaf.view.editor.scrollIntoView({ from: position, to: position }, true);
+    }
+}
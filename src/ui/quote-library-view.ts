@@ -0,0 +1,189 @@
+/**
+ * Side panel that lists every Logos quote in the vault, with search, filters and sorting
+ */
+
+import { DropdownComponent, ItemView, TFile, WorkspaceLeaf, getAllTags } from "obsidian";
+import { filterQuotes, QuoteEntry, QuoteFilter, QuoteLibrary, QuoteLibraryContext, QuoteSortOrder, sortQuotes } from "../utils/quote-library";
+import { openFileAtLine } from "./open-file-at-line";
+
+export const QUOTE_LIBRARY_VIEW_TYPE = "logos-quote-library";
+
+const MAX_QUOTE_LENGTH = 300;
+
+export class QuoteLibraryView extends ItemView {
+    private filter: QuoteFilter = {};
+    private sortOrder: QuoteSortOrder = "title";
+    private filtersEl: HTMLElement | null = null;
+    private listEl: HTMLElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private library: QuoteLibrary) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return QUOTE_LIBRARY_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Quote library";
+    }
+
+    getIcon(): string {
+        return "quote";
+    }
+
+    onOpen(): Promise<void> {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("logos-quote-library");
+
+        const searchEl = container.createEl("input", {
+            type: "search",
+            placeholder: "Search quotes",
+            cls: "logos-index-search"
+        });
+        searchEl.addEventListener("input", () => {
+            this.filter.text = searchEl.value;
+            this.renderList();
+        });
+
+        this.filtersEl = container.createDiv({ cls: "logos-library-filters" });
+        this.listEl = container.createDiv({ cls: "logos-index-list" });
+        this.render();
+        return Promise.resolve();
+    }
+
+    onClose(): Promise<void> {
+        this.filtersEl = null;
+        this.listEl = null;
+        return Promise.resolve();
+    }
+
+    /**
+     * Re-renders the filters and the list after the library changed
+     */
+    refresh(): void {
+        this.render();
+    }
+
+    private render(): void {
+        this.renderFilters(this.library.getEntries(this.getContext()));
+        this.renderList();
+    }
+
+    /**
+     * Builds the filter dropdowns from the authors, books and tags that occur in the library
+     */
+    private renderFilters(entries: QuoteEntry[]): void {
+        const filtersEl = this.filtersEl;
+        if (!filtersEl) return;
+        filtersEl.empty();
+
+        const addFilter = (label: string, key: "author" | "title" | "tag", values: string[]) => {
+            const dropdown = new DropdownComponent(filtersEl).addOption("", label);
+            Array.from(new Set(values)).sort((a, b) => a.localeCompare(b)).forEach(value => {
+                dropdown.addOption(value, value);
+            });
+            // Keep a selection that no longer exists visible, so the list does not silently change
+            const selected = this.filter[key];
+            if (selected && !values.includes(selected)) dropdown.addOption(selected, selected);
+            dropdown.setValue(selected ?? "").onChange(value => {
+                this.filter[key] = value || undefined;
+                this.renderList();
+            });
+        };
+
+        addFilter("All authors", "author", entries.flatMap(entry => entry.author ? [entry.author] : []));
+        addFilter("All books", "title", entries.flatMap(entry => entry.title ? [entry.title] : []));
+        addFilter("All tags", "tag", entries.flatMap(entry => entry.tags));
+
+        const passageEl = filtersEl.createEl("input", {
+            type: "search",
+            placeholder: "Passage, e.g. John 3",
+            value: this.filter.passage ?? ""
+        });
+        passageEl.addEventListener("input", () => {
+            this.filter.passage = passageEl.value;
+            this.renderList();
+        });
+
+        new DropdownComponent(filtersEl)
+            .addOptions({
+                title: "Sort by book",
+                author: "Sort by author",
+                note: "Sort by note",
+                modified: "Recently modified"
+            })
+            .setValue(this.sortOrder)
+            .onChange(value => {
+                this.sortOrder = value as QuoteSortOrder;
+                this.renderList();
+            });
+    }
+
+    private renderList(): void {
+        const listEl = this.listEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        const entries = sortQuotes(filterQuotes(this.library.getEntries(this.getContext()), this.filter), this.sortOrder);
+        if (entries.length === 0) {
+            listEl.createDiv({ cls: "logos-index-empty", text: "No quotes found" });
+            return;
+        }
+
+        listEl.createDiv({ cls: "logos-library-count", text: `${entries.length} ${entries.length === 1 ? "quote" : "quotes"}` });
+        entries.forEach(entry => this.renderEntry(listEl, entry));
+    }
+
+    private renderEntry(parentEl: HTMLElement, entry: QuoteEntry): void {
+        const rowEl = parentEl.createDiv({ cls: "logos-index-row logos-library-row" });
+        const quote = entry.callout.quote.replace(/\s+/g, " ");
+        rowEl.createDiv({
+            cls: "logos-library-quote",
+            text: quote.length > MAX_QUOTE_LENGTH ? `${quote.slice(0, MAX_QUOTE_LENGTH)}…` : quote
+        });
+
+        const source = [entry.title ?? entry.callout.referenceLink ?? "Unknown source", entry.callout.page ? `p. ${entry.callout.page}` : null]
+            .filter(part => part)
+            .join(", ");
+        const metaEl = rowEl.createDiv({ cls: "logos-index-row-title" });
+        metaEl.createSpan({ cls: "logos-index-row-reference", text: source });
+        metaEl.createSpan({ cls: "logos-index-row-context", text: entry.filePath.replace(/\.md$/, "").split("/").pop() ?? entry.filePath });
+        rowEl.setAttr("title", `${entry.author ?? ""}${entry.author ? "\n" : ""}${entry.filePath}`);
+
+        rowEl.addEventListener("click", () => {
+            void openFileAtLine(this.app, entry.filePath, entry.callout.line);
+        });
+
+        // Dropping the entry into a note embeds the quote by its block reference
+        if (entry.callout.blockId) {
+            rowEl.draggable = true;
+            rowEl.addEventListener("dragstart", (event) => {
+                const embed = this.getEmbed(entry);
+                if (!embed || !event.dataTransfer) return;
+                event.dataTransfer.setData("text/plain", embed);
+                event.dataTransfer.effectAllowed = "copy";
+            });
+        }
+    }
+
+    private getEmbed(entry: QuoteEntry): string | null {
+        const file = this.app.vault.getAbstractFileByPath(entry.filePath);
+        if (!(file instanceof TFile) || !entry.callout.blockId) return null;
+        const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+        return `![[${this.app.metadataCache.fileToLinktext(file, sourcePath, true)}#^${entry.callout.blockId}]]`;
+    }
+
+    private getContext(): QuoteLibraryContext {
+        const { metadataCache } = this.app;
+        return {
+            resolveLink: (linkpath, sourcePath) => metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path ?? null,
+            getTags: (filePath) => {
+                const file = this.app.vault.getAbstractFileByPath(filePath);
+                const cache = file instanceof TFile ? metadataCache.getFileCache(file) : null;
+                return cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [];
+            }
+        };
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Side panel that lists every scripture reference in the vault by book, chapter and verse
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { ScriptureIndex, ScriptureIndexEntry, referenceOverlaps } from "../utils/scripture-index";
+import { formatScriptureReference, parseScriptureReferences } from "../utils/scripture-parser";
+import { openFileAtLine } from "./open-file-at-line";
+
+export const SCRIPTURE_INDEX_VIEW_TYPE = "logos-scripture-index";
+
+export class ScriptureIndexView extends ItemView {
+    private query = "";
+    private listEl: HTMLElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, private index: ScriptureIndex) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return SCRIPTURE_INDEX_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Scripture index";
+    }
+
+    getIcon(): string {
+        return "book-open";
+    }
+
+    onOpen(): Promise<void> {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass("logos-scripture-index");
+
+        const searchEl = container.createEl("input", {
+            type: "search",
+            placeholder: "Filter by passage, e.g. Romans 8",
+            cls: "logos-index-search"
+        });
+        searchEl.addEventListener("input", () => {
+            this.query = searchEl.value.trim();
+            this.render();
+        });
+
+        this.listEl = container.createDiv({ cls: "logos-index-list" });
+        this.render();
+        return Promise.resolve();
+    }
+
+    onClose(): Promise<void> {
+        this.listEl = null;
+        return Promise.resolve();
+    }
+
+    /**
+     * Re-renders the tree after the index changed
+     */
+    refresh(): void {
+        this.render();
+    }
+
+    private render(): void {
+        const listEl = this.listEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        const tree = this.index.getTree(this.filterEntries(this.index.getEntries()));
+        if (tree.length === 0) {
+            listEl.createDiv({ cls: "logos-index-empty", text: "No scripture references found" });
+            return;
+        }
+
+        const expand = this.query !== "";
+        tree.forEach(book => {
+            const bookEl = listEl.createEl("details", { cls: "logos-index-book" });
+            bookEl.open = expand;
+            bookEl.createEl("summary", { text: `${book.name} (${book.count})` });
+
+            book.chapters.forEach(chapter => {
+                const chapterEl = bookEl.createEl("details", { cls: "logos-index-chapter" });
+                chapterEl.open = expand;
+                chapterEl.createEl("summary", { text: `${book.name} ${chapter.chapter} (${chapter.count})` });
+
+                chapter.verses.forEach(verse => {
+                    const verseEl = chapterEl.createDiv({ cls: "logos-index-verse" });
+                    verseEl.createDiv({
+                        cls: "logos-index-verse-title",
+                        text: verse.verse === null ? "Whole chapter" : `Verse ${verse.verse}`
+                    });
+                    verse.entries.forEach(entry => this.renderEntry(verseEl, entry));
+                });
+            });
+        });
+    }
+
+    private renderEntry(parentEl: HTMLElement, entry: ScriptureIndexEntry): void {
+        const rowEl = parentEl.createDiv({ cls: "logos-index-row" });
+        const titleEl = rowEl.createDiv({ cls: "logos-index-row-title" });
+        titleEl.createSpan({ text: entry.filePath.replace(/\.md$/, "").split("/").pop() ?? entry.filePath });
+        titleEl.createSpan({ cls: "logos-index-row-reference", text: formatScriptureReference(entry.reference) });
+        rowEl.createDiv({ cls: "logos-index-row-context", text: entry.context });
+        rowEl.setAttr("title", entry.filePath);
+
+        rowEl.addEventListener("click", () => {
+            void openFileAtLine(this.app, entry.filePath, entry.line);
+        });
+    }
+
+    /**
+     * A query that parses as a passage filters by overlap; anything else matches note paths and text
+     */
+    private filterEntries(entries: ScriptureIndexEntry[]): ScriptureIndexEntry[] {
+        if (!this.query) return entries;
+
+        const passages = parseScriptureReferences(this.query);
+        if (passages.length > 0) {
+            return entries.filter(entry => passages.some(passage =>
+                referenceOverlaps(entry.reference, passage.book, passage.start, passage.end)
+            ));
+        }
+
+        const lower = this.query.toLowerCase();
+        return entries.filter(entry =>
+            formatScriptureReference(entry.reference).toLowerCase().includes(lower)
+            || entry.filePath.toLowerCase().includes(lower)
+            || entry.context.toLowerCase().includes(lower)
+        );
+    }
+}
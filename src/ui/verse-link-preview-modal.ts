@@ -0,0 +1,89 @@
+/**
+ * Preview of the verse links a linking command is about to make
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { VerseLinkChange } from "../utils/bible-linker";
+
+export interface VerseLinkPreviewItem {
+    filePath: string;
+    change: VerseLinkChange;
+    /** The line the reference sits on, for context */
+    context: string;
+    accepted: boolean;
+}
+
+/**
+ * Lists each proposed link with a toggle so it can be accepted or rejected before anything is written
+ */
+export class VerseLinkPreviewModal extends Modal {
+    private confirmed = false;
+
+    constructor(
+        app: App,
+        private items: VerseLinkPreviewItem[],
+        private onConfirm: (accepted: VerseLinkPreviewItem[]) => void | Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen(): void {
+        const { contentEl, titleEl } = this;
+        titleEl.setText("Link bible verses");
+
+        const fileCount = new Set(this.items.map(item => item.filePath)).size;
+        contentEl.createEl("p", {
+            text: `${this.items.length} ${this.items.length === 1 ? "reference" : "references"} found in ${fileCount} ${fileCount === 1 ? "note" : "notes"}.`
+        });
+
+        const toggles: Array<(value: boolean) => void> = [];
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Select all")
+                .onClick(() => toggles.forEach(set => set(true))))
+            .addButton(button => button
+                .setButtonText("Select none")
+                .onClick(() => toggles.forEach(set => set(false))));
+
+        const listEl = contentEl.createDiv({ cls: "logos-preview-list" });
+        let currentFile: string | null = null;
+        this.items.forEach(item => {
+            if (fileCount > 1 && item.filePath !== currentFile) {
+                currentFile = item.filePath;
+                listEl.createEl("h4", { text: item.filePath });
+            }
+
+            new Setting(listEl)
+                .setName(`${item.change.text} → ${item.change.replacement.replace(/^\[[^\]]*\]\(|\)$/g, '')}`)
+                .setDesc(item.context)
+                .addToggle(toggle => {
+                    toggle.setValue(item.accepted)
+                        .onChange(value => {
+                            item.accepted = value;
+                        });
+                    toggles.push(value => {
+                        toggle.setValue(value);
+                    });
+                });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText("Apply")
+                .setCta()
+                .onClick(() => {
+                    this.confirmed = true;
+                    this.close();
+                }));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (this.confirmed) {
+            void this.onConfirm(this.items.filter(item => item.accepted));
+        }
+    }
+}
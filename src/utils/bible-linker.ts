@@ -2,42 +2,54 @@
  * Utility functions for Bible verse detection and Logos linking
  */
 
-import { BIBLE_BOOKS, VERSION_MAPPING } from '../constants/bible-books';
+import { VERSION_MAPPING } from '../constants/bible-books';
+import { formatReflyReference, parseScriptureReferences, ScriptureReference } from './scripture-parser';
+import { maskProtectedSpans } from './markdown-spans';
+
+export interface VerseLinkChange {
+    /** Offset of the reference text in the source */
+    offset: number;
+    /** The reference text that becomes the link label */
+    text: string;
+    /** The Markdown link that replaces the reference text */
+    replacement: string;
+    reference: ScriptureReference;
+}
 
 /**
  * Detects Bible verse references in text and converts them to Logos links
- * Supports formats like "John 3:16", "Jn 3:16", "Genesis 1:1-5", "1 John 1:9"
+ * Supports formats like "John 3:16", "Jn 3:16", "Genesis 1:1-5", "1 John 1:9", "Psalm 23",
+ * "John 3:16–4:2" and lists such as "Rom 8:1, 28–30; 9:1", where each part gets its own link.
+ * Only plain prose is rewritten: links, URLs, code, wikilinks, block IDs and HTML are left alone.
  */
 export function linkBibleVerses(text: string, version: string = 'esv'): string {
-    const logosVersion = VERSION_MAPPING[version.toLowerCase()] || version;
-
-    // Regex to match Bible verse patterns
-    // Handles: "John 3:16", "1 John 1:9", "Gen. 1:1-5", "Ps 23:1", etc.
-    const verseRegex = /\b((?:[123]|I{1,3})\s*)?([A-Za-z]+)\.?\s+(\d+):(\d+)(?:\s*[-–]\s*(\d+))?\b/g;
-
-    return text.replace(verseRegex, (match: string, prefix: string | undefined, book: string, chapter: string, verse: string, endVerse: string | undefined) => {
-        // Normalize the book name by combining prefix and book, removing spaces
-        let normalizedBook = ((prefix || '') + book).toLowerCase().replace(/\s+/g, '');
-
-        // Handle Roman numeral prefixes (I, II, III -> 1, 2, 3)
-        normalizedBook = normalizedBook
-            .replace(/^iii/, '3')
-            .replace(/^ii/, '2')
-            .replace(/^i/, '1');
-
-        const bookCode = BIBLE_BOOKS[normalizedBook];
-
-        if (!bookCode) {
-            return match; // Not a recognized Bible book, return original text
-        }
+    return applyVerseLinks(text, findVerseLinks(text, version));
+}
 
-        // Build the Logos reference using the simpler ref.ly format
-        const ref = endVerse
-            ? `${bookCode}${chapter}.${verse}-${endVerse}`
-            : `${bookCode}${chapter}.${verse}`;
+/**
+ * Lists the links `linkBibleVerses` would make, without changing the text
+ */
+export function findVerseLinks(text: string, version: string = 'esv'): VerseLinkChange[] {
+    const logosVersion = getLogosVersionCode(version);
+    return parseScriptureReferences(maskProtectedSpans(text)).map(reference => ({
+        offset: reference.offset,
+        text: reference.text,
+        replacement: `[${reference.text}](https://ref.ly/${formatReflyReference(reference)};${logosVersion})`,
+        reference
+    }));
+}
 
-        return `[${match}](https://ref.ly/${ref};${logosVersion})`;
-    });
+/**
+ * Applies a set of changes from `findVerseLinks` to the text they were found in
+ */
+export function applyVerseLinks(text: string, changes: VerseLinkChange[]): string {
+    // Replace from the end so earlier offsets stay valid
+    const sorted = [...changes].sort((a, b) => b.offset - a.offset);
+    let result = text;
+    for (const change of sorted) {
+        result = result.slice(0, change.offset) + change.replacement + result.slice(change.offset + change.text.length);
+    }
+    return result;
 }
 
 /**
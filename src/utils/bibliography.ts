@@ -0,0 +1,308 @@
+/**
+ * Utility functions for rendering BibTeX entries as a formatted bibliography
+ *
+ * Entries are written as Markdown in SBL, Chicago notes-bibliography or APA
+ * style, or kept as BibTeX in a fenced block. The result goes into a section
+ * between two comment markers so running the command again replaces it.
+ */
+
+import { BibtexEntry, getBibtexField } from './bibtex-parser';
+import { CslName, parseCslNames } from './bibtex-export';
+import { normalizeCiteKey } from './clipboard-parser';
+
+export type BibliographyStyle = 'sbl' | 'chicago' | 'apa' | 'bibtex';
+
+export const BIBLIOGRAPHY_STYLES: Record<BibliographyStyle, string> = {
+    sbl: 'SBL',
+    chicago: 'Chicago (notes-bibliography)',
+    apa: 'APA',
+    bibtex: 'Bibtex code block'
+};
+
+export const BIBLIOGRAPHY_START = '%% logos-bibliography start %%';
+export const BIBLIOGRAPHY_END = '%% logos-bibliography end %%';
+
+/**
+ * The parts of an entry the styles need, with names already split
+ */
+interface BibliographyParts {
+    type: string;
+    authors: CslName[];
+    editors: CslName[];
+    translators: CslName[];
+    title: string | null;
+    container: string | null;
+    series: string | null;
+    seriesNumber: string | null;
+    edition: string | null;
+    volume: string | null;
+    number: string | null;
+    pages: string | null;
+    place: string | null;
+    publisher: string | null;
+    year: string | null;
+    url: string | null;
+    doi: string | null;
+}
+
+/**
+ * Renders the whole bibliography: one paragraph per entry in the chosen style,
+ * or a single fenced BibTeX block, sorted by author
+ */
+export function formatBibliography(entries: BibtexEntry[], style: BibliographyStyle): string {
+    const sorted = sortBibliographyEntries(dedupeEntries(entries));
+    if (style === 'bibtex') {
+        return `\`\`\`bibtex\n${sorted.map(entry => entry.raw).join('\n\n')}\n\`\`\``;
+    }
+    return sorted.map(entry => formatBibliographyEntry(entry, style)).join('\n\n');
+}
+
+/**
+ * Renders one entry in a citation style
+ */
+export function formatBibliographyEntry(entry: BibtexEntry, style: Exclude<BibliographyStyle, 'bibtex'>): string {
+    const parts = getBibliographyParts(entry);
+    return style === 'apa' ? formatApa(parts) : formatNotesBibliography(parts, style === 'sbl');
+}
+
+/**
+ * Sorts by the first author's (or editor's) family name, then year, then title
+ */
+export function sortBibliographyEntries(entries: BibtexEntry[]): BibtexEntry[] {
+    const sortKey = (entry: BibtexEntry) => {
+        const parts = getBibliographyParts(entry);
+        const [name] = parts.authors.length > 0 ? parts.authors : parts.editors;
+        return [name ? name.family ?? name.literal ?? '' : parts.title ?? '', name?.given ?? '', parts.year ?? '', parts.title ?? ''];
+    };
+    return entries
+        .map(entry => ({ entry, key: sortKey(entry) }))
+        .sort((a, b) => a.key.reduce((result, value, index) => result || value.localeCompare(b.key[index]), 0))
+        .map(({ entry }) => entry);
+}
+
+/**
+ * Puts the bibliography between the managed section markers, replacing what a previous run wrote there.
+ * A note without the markers gets a new "## Bibliography" section at the end, unless it has
+ * "## Bibliography" sections from before the markers existed: the first is replaced and the rest removed.
+ */
+export function replaceBibliographySection(content: string, bibliography: string): string {
+    const section = `${BIBLIOGRAPHY_START}\n${bibliography}\n${BIBLIOGRAPHY_END}`;
+    const start = content.indexOf(BIBLIOGRAPHY_START);
+    const end = start === -1 ? -1 : content.indexOf(BIBLIOGRAPHY_END, start);
+    if (start !== -1 && end !== -1) {
+        return content.slice(0, start) + section + content.slice(end + BIBLIOGRAPHY_END.length);
+    }
+
+    const legacy = findLegacyBibliographySections(content);
+    if (legacy.length === 0) {
+        return `${content.trimEnd()}\n\n## Bibliography\n${section}\n`;
+    }
+    // Keep what lies between the old sections, dropping the sections themselves
+    const after = legacy
+        .map((old, index) => content.slice(old.end, legacy[index + 1]?.start ?? content.length))
+        .join('');
+    return `${content.slice(0, legacy[0].start)}## Bibliography\n${section}\n${after.trim() ? `\n${after.trim()}\n` : ''}`;
+}
+
+/**
+ * Finds the "## Bibliography" sections the command wrote before it used markers, each running to the
+ * next heading of level 2 or higher
+ */
+function findLegacyBibliographySections(content: string): Array<{ start: number, end: number }> {
+    const sections: Array<{ start: number, end: number }> = [];
+    let inCode = false;
+    let offset = 0;
+    let start = -1;
+    for (const line of content.split('\n')) {
+        if (/^[ \t]*(`{3,}|~{3,})/.test(line)) inCode = !inCode;
+        const heading = inCode ? null : /^(#{1,6})[ \t]+(.*?)[ \t#]*$/.exec(line);
+        if (heading && heading[1].length <= 2 && start !== -1) {
+            sections.push({ start, end: offset });
+            start = -1;
+        }
+        if (heading && heading[1].length === 2 && heading[2].toLowerCase() === 'bibliography') {
+            start = offset;
+        }
+        offset += line.length + 1;
+    }
+    if (start !== -1) sections.push({ start, end: content.length });
+    return sections;
+}
+
+/**
+ * Chicago notes-bibliography entries, which is also the form Turabian uses.
+ * SBL adds the series and its number after the title.
+ */
+function formatNotesBibliography(parts: BibliographyParts, sbl: boolean): string {
+    const sentences: string[] = [];
+    if (parts.authors.length > 0) {
+        sentences.push(formatNameList(parts.authors, 'first-inverted'));
+    } else if (parts.editors.length > 0) {
+        sentences.push(`${formatNameList(parts.editors, 'first-inverted')}, ${parts.editors.length === 1 ? 'ed' : 'eds'}`);
+    }
+
+    const publication = [parts.place && parts.publisher ? `${parts.place}: ${parts.publisher}` : parts.publisher ?? parts.place, parts.year]
+        .filter(part => part)
+        .join(', ');
+
+    if (parts.type === 'article') {
+        sentences.push(quoted(parts.title));
+        const issue = [parts.volume, parts.number ? `no. ${parts.number}` : null].filter(part => part).join(', ');
+        const journal = [italic(parts.container), issue, parts.year ? `(${parts.year})` : null].filter(part => part).join(' ');
+        sentences.push(parts.pages ? `${journal}: ${formatPages(parts.pages)}` : journal);
+    } else if (parts.container) {
+        sentences.push(quoted(parts.title));
+        const editors = parts.editors.length > 0 ? `edited by ${formatNameList(parts.editors, 'natural')}` : null;
+        sentences.push([`In ${italic(parts.container)}`, editors, parts.pages ? formatPages(parts.pages) : null].filter(part => part).join(', '));
+        if (sbl && parts.series) sentences.push(formatSeries(parts));
+        sentences.push(publication);
+    } else {
+        sentences.push(italic(parts.title));
+        if (parts.authors.length > 0 && parts.editors.length > 0) sentences.push(`Edited by ${formatNameList(parts.editors, 'natural')}`);
+        if (parts.translators.length > 0) sentences.push(`Translated by ${formatNameList(parts.translators, 'natural')}`);
+        if (parts.edition) sentences.push(`${formatEdition(parts.edition)} ed`);
+        if (parts.volume) sentences.push(`Vol. ${parts.volume}`);
+        if (sbl && parts.series) sentences.push(formatSeries(parts));
+        sentences.push(publication);
+    }
+
+    if (parts.doi) sentences.push(`https://doi.org/${parts.doi}`);
+    else if (parts.url) sentences.push(parts.url);
+
+    return joinSentences(sentences);
+}
+
+/**
+ * APA 7 reference list entries
+ */
+function formatApa(parts: BibliographyParts): string {
+    const names = parts.authors.length > 0 ? parts.authors : parts.editors;
+    const sentences: string[] = [];
+    if (names.length > 0) {
+        const editorLabel = parts.authors.length === 0 ? ` (${names.length === 1 ? 'Ed.' : 'Eds.'})` : '';
+        sentences.push(formatApaNames(names) + editorLabel);
+    }
+    sentences.push(`(${parts.year ?? 'n.d.'})`);
+
+    if (parts.type === 'article') {
+        sentences.push(parts.title ?? '');
+        const volume = parts.volume ? `, ${italic(parts.volume)}${parts.number ? `(${parts.number})` : ''}` : '';
+        sentences.push(`${italic(parts.container)}${volume}${parts.pages ? `, ${formatPages(parts.pages)}` : ''}`);
+    } else if (parts.container) {
+        sentences.push(parts.title ?? '');
+        const editors = parts.editors.length > 0 ? `${formatApaNames(parts.editors, true)} (${parts.editors.length === 1 ? 'Ed.' : 'Eds.'}), ` : '';
+        sentences.push(`In ${editors}${italic(parts.container)}${parts.pages ? ` (pp. ${formatPages(parts.pages)})` : ''}`);
+        if (parts.publisher) sentences.push(parts.publisher);
+    } else {
+        const details = [parts.edition ? `${formatEdition(parts.edition)} ed.` : null, parts.volume ? `Vol. ${parts.volume}` : null]
+            .filter(part => part)
+            .join(', ');
+        sentences.push(`${italic(parts.title)}${details ? ` (${details})` : ''}`);
+        if (parts.publisher) sentences.push(parts.publisher);
+    }
+
+    const link = parts.doi ? `https://doi.org/${parts.doi}` : parts.url;
+    return joinSentences(sentences) + (link ? ` ${link}` : '');
+}
+
+function getBibliographyParts(entry: BibtexEntry): BibliographyParts {
+    const field = (...names: string[]) => names.map(name => getBibtexField(entry, name)).find(value => value) ?? null;
+    const names = (name: string) => {
+        const raw = entry.fields.find(candidate => candidate.name === name)?.raw;
+        return raw ? parseCslNames(raw) : [];
+    };
+
+    return {
+        type: entry.type,
+        authors: names('author'),
+        editors: names('editor'),
+        translators: names('translator'),
+        title: field('title'),
+        container: field('journaltitle', 'journal', 'booktitle'),
+        series: field('series'),
+        seriesNumber: entry.type === 'article' ? null : field('number'),
+        edition: field('edition'),
+        volume: field('volume'),
+        number: entry.type === 'article' ? field('number', 'issue') : null,
+        pages: field('pages'),
+        place: field('location', 'address'),
+        publisher: field('publisher', 'institution', 'school', 'organization'),
+        year: field('year') ?? field('date')?.match(/\d{4}/)?.[0] ?? null,
+        url: field('url'),
+        doi: field('doi')
+    };
+}
+
+/**
+ * Keeps the first entry for each normalized cite key
+ */
+function dedupeEntries(entries: BibtexEntry[]): BibtexEntry[] {
+    const seen = new Set<string>();
+    return entries.filter(entry => {
+        const key = normalizeCiteKey(entry.key);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * "Last, First, Second Person, and Third Person" or "First Last and Second Person"
+ */
+function formatNameList(names: CslName[], order: 'first-inverted' | 'natural'): string {
+    const formatted = names.map((name, index) => {
+        if (name.literal) return name.literal;
+        if (!name.given) return name.family ?? '';
+        return order === 'first-inverted' && index === 0 ? `${name.family}, ${name.given}` : `${name.given} ${name.family}`;
+    });
+    if (formatted.length <= 2) return formatted.join(' and ');
+    return `${formatted.slice(0, -1).join(', ')}, and ${formatted[formatted.length - 1]}`;
+}
+
+/**
+ * "Last, F. M., & Last, F." or, for editors in a chapter entry, "F. M. Last & F. Last"
+ */
+function formatApaNames(names: CslName[], natural: boolean = false): string {
+    const formatted = names.map(name => {
+        if (name.literal) return name.literal;
+        const initials = (name.given ?? '').split(/[\s.]+/).filter(part => part).map(part => `${part[0]}.`).join(' ');
+        if (!initials) return name.family ?? '';
+        return natural ? `${initials} ${name.family}` : `${name.family}, ${initials}`;
+    });
+    if (formatted.length === 1) return formatted[0];
+    if (natural && formatted.length === 2) return formatted.join(' & ');
+    return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+}
+
+function formatSeries(parts: BibliographyParts): string {
+    return parts.seriesNumber ? `${parts.series} ${parts.seriesNumber}` : parts.series ?? '';
+}
+
+function formatEdition(edition: string): string {
+    const number = parseInt(edition, 10);
+    if (!/^\d+$/.test(edition.trim())) return edition;
+    const suffix = number % 100 >= 11 && number % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][number % 10] ?? 'th';
+    return `${number}${suffix}`;
+}
+
+function formatPages(pages: string): string {
+    return pages.replace(/\s*-{1,2}\s*/g, '–');
+}
+
+function italic(text: string | null): string {
+    return text ? `*${text}*` : '';
+}
+
+function quoted(text: string | null): string {
+    return text ? `“${text.replace(/[.,]$/, '')}.”` : '';
+}
+
+/**
+ * Joins the parts of an entry with periods, without doubling the ones a part already ends with
+ */
+function joinSentences(sentences: string[]): string {
+    return sentences
+        .filter(sentence => sentence.trim())
+        .map(sentence => /[.?!]["”*)]?$/.test(sentence) ? sentence : `${sentence}.`)
+        .join(' ');
+}
@@ -0,0 +1,181 @@
+/**
+ * Utility functions for exporting reference notes as a .bib file and as CSL-JSON
+ */
+
+import { BibtexEntry, getBibtexField, parseBibtexEntry } from './bibtex-parser';
+import { normalizeCiteKey } from './clipboard-parser';
+
+export interface CslName {
+    family?: string;
+    given?: string;
+    /** Names that should not be split, such as organisations */
+    literal?: string;
+}
+
+export interface CslDate {
+    'date-parts'?: number[][];
+    literal?: string;
+}
+
+export type CslValue = string | CslName[] | CslDate;
+
+export interface CslItem {
+    id: string;
+    type: string;
+    [field: string]: CslValue;
+}
+
+const CSL_TYPES: Record<string, string> = {
+    article: 'article-journal',
+    book: 'book',
+    booklet: 'pamphlet',
+    collection: 'book',
+    inbook: 'chapter',
+    incollection: 'chapter',
+    inproceedings: 'paper-conference',
+    manual: 'report',
+    mastersthesis: 'thesis',
+    mvbook: 'book',
+    online: 'webpage',
+    phdthesis: 'thesis',
+    proceedings: 'book',
+    report: 'report',
+    techreport: 'report',
+    thesis: 'thesis',
+    unpublished: 'manuscript'
+};
+
+/** BibTeX fields copied as they are, by their CSL name */
+const CSL_TEXT_FIELDS: Array<[string, string[]]> = [
+    ['title', ['title']],
+    ['container-title', ['journaltitle', 'journal', 'booktitle']],
+    ['collection-title', ['series']],
+    ['publisher', ['publisher', 'institution', 'school', 'organization']],
+    ['publisher-place', ['location', 'address']],
+    ['edition', ['edition']],
+    ['volume', ['volume']],
+    ['number-of-volumes', ['volumes']],
+    ['page', ['pages']],
+    ['ISBN', ['isbn']],
+    ['ISSN', ['issn']],
+    ['DOI', ['doi']],
+    ['URL', ['url']],
+    ['abstract', ['abstract']],
+    ['note', ['note']]
+];
+
+const CSL_NAME_FIELDS: Array<[string, string]> = [
+    ['author', 'author'],
+    ['editor', 'editor'],
+    ['translator', 'translator']
+];
+
+/**
+ * Gives each entry its normalized cite key (the one `extractCiteKey` returns),
+ * drops later entries with a key already seen, and sorts them by key
+ */
+export function collectExportEntries(entries: BibtexEntry[]): BibtexEntry[] {
+    const byKey = new Map<string, BibtexEntry>();
+    entries.forEach(entry => {
+        const key = normalizeCiteKey(entry.key);
+        if (key && !byKey.has(key)) {
+            byKey.set(key, withCiteKey(entry, key));
+        }
+    });
+    return Array.from(byKey.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Returns a copy of the entry under another cite key, leaving the rest of its source text as it was
+ */
+export function withCiteKey(entry: BibtexEntry, key: string): BibtexEntry {
+    if (entry.key === key) return entry;
+    const raw = entry.raw.replace(/^(@\s*\w+\s*[{(]\s*)[^,\s]*/, `$1${key}`);
+    return parseBibtexEntry(raw) ?? { ...entry, key, raw };
+}
+
+/**
+ * Writes entries out as the contents of a .bib file
+ */
+export function formatBibFile(entries: BibtexEntry[]): string {
+    return entries.map(entry => entry.raw).join('\n\n') + '\n';
+}
+
+/**
+ * Writes entries out as a CSL-JSON array
+ */
+export function formatCslJson(entries: BibtexEntry[]): string {
+    return JSON.stringify(entries.map(toCslItem), null, 2) + '\n';
+}
+
+/**
+ * Converts a BibTeX entry to a CSL-JSON item, as read by Pandoc and Zotero
+ */
+export function toCslItem(entry: BibtexEntry): CslItem {
+    const item: CslItem = { id: entry.key, type: CSL_TYPES[entry.type] ?? 'document' };
+
+    CSL_NAME_FIELDS.forEach(([cslName, bibtexName]) => {
+        const field = entry.fields.find(candidate => candidate.name === bibtexName);
+        if (field) item[cslName] = parseCslNames(field.raw);
+    });
+
+    CSL_TEXT_FIELDS.forEach(([cslName, bibtexNames]) => {
+        const value = bibtexNames.map(name => getBibtexField(entry, name)).find(candidate => candidate);
+        if (value) item[cslName] = value;
+    });
+
+    // Journals number their issues; other types use "number" for a report or series number
+    const number = getBibtexField(entry, 'number');
+    if (number) item[entry.type === 'article' ? 'issue' : 'number'] = number;
+
+    const issued = parseCslDate(getBibtexField(entry, 'date') ?? getBibtexField(entry, 'year'));
+    if (issued) item.issued = issued;
+
+    return item;
+}
+
+/**
+ * Splits a raw BibTeX name list on "and".
+ * Names wrapped in their own braces, like `{Crossway Bibles}`, are kept whole.
+ */
+export function parseCslNames(raw: string): CslName[] {
+    const inner = raw.trim().replace(/^\{([\s\S]*)\}$|^"([\s\S]*)"$/, '$1$2');
+    const names: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const part of inner.split(/(\s+and\s+|[{}])/)) {
+        if (part === '{') depth++;
+        if (part === '}') depth--;
+        if (depth === 0 && /^\s+and\s+$/.test(part)) {
+            names.push(current);
+            current = '';
+        } else {
+            current += part;
+        }
+    }
+    names.push(current);
+
+    return names.map(name => name.trim()).filter(name => name).map(name => {
+        if (/^\{[^{}]*\}$/.test(name)) return { literal: stripBraces(name) };
+
+        const [last, first] = stripBraces(name).split(/\s*,\s*/, 2);
+        if (first !== undefined) return { family: last, given: first };
+
+        const words = last.split(/\s+/);
+        return words.length === 1 ? { literal: last } : { family: words.pop(), given: words.join(' ') };
+    });
+}
+
+/**
+ * Turns "2001", "2001-05" or "2001-05-03" into CSL date parts, and anything else into a literal date
+ */
+function parseCslDate(value: string | null): CslDate | null {
+    if (!value) return null;
+    const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value.trim());
+    if (!match) return { literal: value };
+    return { 'date-parts': [match.slice(1).filter(part => part).map(part => parseInt(part, 10))] };
+}
+
+function stripBraces(value: string): string {
+    return value.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
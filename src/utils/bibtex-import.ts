@@ -0,0 +1,86 @@
+/**
+ * Utility functions for importing a .bib library into reference notes
+ */
+
+import { BibtexEntry, BibtexField, getBibtexField, parseBibtexCodeBlocks, removeBibtexField } from './bibtex-parser';
+import { normalizeCiteKey } from './clipboard-parser';
+import { generateNotePath, getReferenceNoteName } from './file-utils';
+
+/**
+ * What to do when a reference note already holds different BibTeX for an entry:
+ * keep the note as it is, add the fields it is missing, or replace its BibTeX block
+ */
+export type ImportConflictStrategy = 'skip' | 'merge' | 'replace';
+
+export type ImportStatus = 'new' | 'unchanged' | 'conflict';
+
+/**
+ * Prepares an imported entry the way the paste command stores it: the note is named after
+ * the normalized cite key, and the pages field, which belongs to a single quote, is dropped
+ */
+export function prepareImportEntry(entry: BibtexEntry, folder: string, appendReferencesToTitle: boolean): { entry: BibtexEntry; filePath: string } {
+    const noteName = getReferenceNoteName(normalizeCiteKey(entry.key), getBibtexField(entry, 'title') || null, appendReferencesToTitle);
+    return { entry: removeBibtexField(entry, 'pages'), filePath: generateNotePath(noteName, folder) };
+}
+
+/**
+ * Compares an imported entry with the reference note it would go into
+ */
+export function classifyImport(entry: BibtexEntry, existingContent: string | null): ImportStatus {
+    if (existingContent === null) return 'new';
+    const [existing] = parseBibtexCodeBlocks(existingContent);
+    return existing && bibtexEntriesEqual(existing, entry) ? 'unchanged' : 'conflict';
+}
+
+/**
+ * Returns the updated reference note for a conflicting entry, or null to leave it alone
+ */
+export function resolveImportConflict(existingContent: string, entry: BibtexEntry, strategy: ImportConflictStrategy): string | null {
+    if (strategy === 'skip') return null;
+
+    const [existing] = parseBibtexCodeBlocks(existingContent);
+    const bibtex = strategy === 'merge' && existing ? mergeBibtexEntries(existing, entry) : entry.raw;
+    const updated = replaceBibtexBlock(existingContent, bibtex);
+    return updated === existingContent ? null : updated;
+}
+
+/**
+ * Returns true when both entries have the same type, key and field values, whatever their layout
+ */
+export function bibtexEntriesEqual(a: BibtexEntry, b: BibtexEntry): boolean {
+    if (a.type !== b.type || a.key !== b.key || a.fields.length !== b.fields.length) return false;
+    return a.fields.every(field => b.fields.some(other => other.name === field.name && other.value === field.value));
+}
+
+/**
+ * Keeps the existing entry exactly as written and adds the fields only the incoming entry has
+ * before its closing delimiter, each with its value as written in the imported file
+ */
+export function mergeBibtexEntries(existing: BibtexEntry, incoming: BibtexEntry): string {
+    const added = incoming.fields.filter(field => !existing.fields.some(other => other.name === field.name));
+    if (added.length === 0) return existing.raw;
+
+    const lines = added.map(field => `  ${field.name} = ${formatAddedValue(field)}`).join(',\n');
+    return existing.raw.replace(/,?\s*([})])\s*$/, `,\n${lines}\n$1`);
+}
+
+/**
+ * A bare macro name only means something in the imported file, so it is written out as its value
+ */
+function formatAddedValue(field: BibtexField): string {
+    return /^[{"]|^\d+$/.test(field.raw) ? field.raw : `{${field.value}}`;
+}
+
+/**
+ * Replaces the first ```bibtex block of a note, or adds one after the frontmatter
+ */
+export function replaceBibtexBlock(content: string, bibtex: string): string {
+    const block = /```bibtex[^\n]*\n[\s\S]*?```/.exec(content);
+    if (block) {
+        return content.slice(0, block.index) + `\`\`\`bibtex\n${bibtex}\n\`\`\`` + content.slice(block.index + block[0].length);
+    }
+
+    const frontmatter = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/.exec(content)?.[0] ?? '';
+    const body = content.slice(frontmatter.length).replace(/^\s+/, '');
+    return `${frontmatter}${frontmatter ? '\n' : ''}\`\`\`bibtex\n${bibtex}\n\`\`\`\n${body ? `\n${body}` : ''}`;
+}
@@ -0,0 +1,395 @@
+/**
+ * BibTeX parsing utilities
+ *
+ * Turns BibTeX source into typed entries while keeping the original text, so
+ * entries can be written back out exactly as Logos exported them.
+ */
+
+export interface BibtexField {
+    /** Lowercased field name, e.g. "title" */
+    name: string;
+    /** Resolved value: delimiters removed, macros expanded, "#" parts joined */
+    value: string;
+    /** The value exactly as written in the source, e.g. `{The {Lord's} Supper}` */
+    raw: string;
+    /** Offset of the field name within the entry's raw text */
+    start: number;
+    /** Offset just past the field's value (and trailing comma, if any) */
+    end: number;
+}
+
+export interface BibtexEntry {
+    /** Lowercased entry type, e.g. "book" */
+    type: string;
+    /** Cite key as written in the source */
+    key: string;
+    /** Fields in source order */
+    fields: BibtexField[];
+    /** The entry's full source text, from "@" to the closing delimiter */
+    raw: string;
+    /** Offset of the entry within the parsed source */
+    start: number;
+    /** Offset just past the entry within the parsed source */
+    end: number;
+}
+
+const MONTH_MACROS: Record<string, string> = {
+    jan: 'January', feb: 'February', mar: 'March', apr: 'April',
+    may: 'May', jun: 'June', jul: 'July', aug: 'August',
+    sep: 'September', oct: 'October', nov: 'November', dec: 'December'
+};
+
+const ENTRY_START = /@\s*([A-Za-z][\w-]*)\s*([{(])/;
+
+/**
+ * Small cursor over the source text
+ */
+class Scanner {
+    pos: number;
+
+    constructor(readonly text: string, start = 0) {
+        this.pos = start;
+    }
+
+    get done(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    peek(): string {
+        return this.text[this.pos] ?? '';
+    }
+
+    skipWhitespace(): void {
+        while (!this.done && /\s/.test(this.peek())) this.pos++;
+    }
+}
+
+/**
+ * Parses every entry in a BibTeX source.
+ * `@string` macros are collected and expanded; `@comment` and `@preamble` are skipped.
+ */
+export function parseBibtex(source: string): BibtexEntry[] {
+    const entries: BibtexEntry[] = [];
+    const macros: Record<string, string> = { ...MONTH_MACROS };
+
+    const entryStart = new RegExp(ENTRY_START.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = entryStart.exec(source)) !== null) {
+        const type = match[1].toLowerCase();
+        const open = match[2];
+        const close = open === '{' ? '}' : ')';
+        const bodyStart = match.index + match[0].length;
+
+        if (type === 'comment' || type === 'preamble') {
+            entryStart.lastIndex = findClosing(source, bodyStart, open, close);
+            continue;
+        }
+
+        if (type === 'string') {
+            const scanner = new Scanner(source, bodyStart);
+            parseFields(scanner, close, macros, match.index).forEach(field => {
+                macros[field.name] = field.value;
+            });
+            skipClosing(scanner, close);
+            entryStart.lastIndex = scanner.pos;
+            continue;
+        }
+
+        const entry = parseEntryBody(source, match.index, bodyStart, type, close, macros);
+        entries.push(entry);
+        entryStart.lastIndex = Math.max(entry.end, bodyStart);
+    }
+
+    return entries;
+}
+
+/**
+ * Parses the first entry in a BibTeX source, or returns null if there is none
+ */
+export function parseBibtexEntry(source: string): BibtexEntry | null {
+    return parseBibtex(source)[0] ?? null;
+}
+
+/**
+ * Parses the entries inside every ```bibtex code block of a Markdown note
+ */
+export function parseBibtexCodeBlocks(markdown: string): BibtexEntry[] {
+    const blocks = markdown.match(/```bibtex[^\n]*\n[\s\S]*?```/g) ?? [];
+    return blocks.flatMap(block => parseBibtex(block.replace(/^```bibtex[^\n]*\n|```$/g, '')));
+}
+
+/**
+ * Returns the resolved value of a field, or null if the entry does not have it
+ */
+export function getBibtexField(entry: BibtexEntry, name: string): string | null {
+    const lower = name.toLowerCase();
+    const field = entry.fields.find(f => f.name === lower);
+    return field ? field.value : null;
+}
+
+/**
+ * Returns a copy of the entry without the named field.
+ * The rest of the source text is left exactly as it was.
+ */
+export function removeBibtexField(entry: BibtexEntry, name: string): BibtexEntry {
+    const lower = name.toLowerCase();
+    const field = entry.fields.find(f => f.name === lower);
+    if (!field) return entry;
+
+    const raw = entry.raw;
+    let start = field.start;
+    let end = field.end;
+
+    // When the field sits on its own line, drop the whole line
+    const lineStart = raw.lastIndexOf('\n', start - 1) + 1;
+    const trailing = raw.slice(end).match(/^[ \t]*\r?\n/);
+    if (/^[ \t]*$/.test(raw.slice(lineStart, start)) && trailing) {
+        start = lineStart;
+        end += trailing[0].length;
+    } else {
+        end += (raw.slice(end).match(/^\s*/)?.[0].length ?? 0);
+    }
+
+    const reparsed = parseBibtexEntry(raw.slice(0, start) + raw.slice(end));
+    return reparsed ?? entry;
+}
+
+/**
+ * Returns a copy of the entry with a field set to a new value.
+ * An existing field keeps its place and layout; a new one is added at the end.
+ */
+export function setBibtexField(entry: BibtexEntry, name: string, value: string): BibtexEntry {
+    const lower = name.toLowerCase();
+    const field = entry.fields.find(f => f.name === lower);
+    const formatted = `{${escapeBibtexValue(value)}}`;
+
+    let raw: string;
+    if (field) {
+        const valueStart = entry.raw.indexOf(field.raw, field.start + field.name.length);
+        raw = entry.raw.slice(0, valueStart) + formatted + entry.raw.slice(valueStart + field.raw.length);
+    } else {
+        raw = entry.raw.replace(/,?\s*([})])\s*$/, `,\n  ${lower} = ${formatted}\n$1`);
+    }
+
+    return parseBibtexEntry(raw) ?? entry;
+}
+
+/**
+ * Writes an entry back out as BibTeX source
+ */
+export function stringifyBibtexEntry(entry: BibtexEntry): string {
+    return entry.raw;
+}
+
+/**
+ * Builds BibTeX source for a new entry from plain field values
+ */
+export function formatBibtexEntry(type: string, key: string, fields: Array<[string, string]>): string {
+    const lines = fields
+        .filter(([, value]) => value.trim() !== '')
+        .map(([name, value]) => `  ${name.toLowerCase()} = {${escapeBibtexValue(value)}},`);
+    return [`@${type.toLowerCase()}{${key},`, ...lines, '}'].join('\n');
+}
+
+/**
+ * Keeps braces in a value balanced so it can be wrapped in {...}
+ */
+function escapeBibtexValue(value: string): string {
+    let depth = 0;
+    for (const char of value) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (depth < 0) break;
+    }
+    return depth === 0 ? value : value.replace(/[{}]/g, '');
+}
+
+function parseEntryBody(
+    source: string,
+    entryStart: number,
+    bodyStart: number,
+    type: string,
+    close: string,
+    macros: Record<string, string>
+): BibtexEntry {
+    const scanner = new Scanner(source, bodyStart);
+    scanner.skipWhitespace();
+
+    const keyStart = scanner.pos;
+    while (!scanner.done && scanner.peek() !== ',' && scanner.peek() !== close && scanner.peek() !== '\n') {
+        scanner.pos++;
+    }
+    const key = source.slice(keyStart, scanner.pos).trim();
+    if (scanner.peek() === ',') scanner.pos++;
+
+    const fields = parseFields(scanner, close, macros, entryStart);
+    skipClosing(scanner, close);
+
+    return {
+        type,
+        key,
+        fields,
+        raw: source.slice(entryStart, scanner.pos),
+        start: entryStart,
+        end: scanner.pos
+    };
+}
+
+/**
+ * Parses `name = value` pairs until the closing delimiter.
+ * Offsets are stored relative to `base`.
+ */
+function parseFields(scanner: Scanner, close: string, macros: Record<string, string>, base: number): BibtexField[] {
+    const fields: BibtexField[] = [];
+    const text = scanner.text;
+
+    while (!scanner.done) {
+        scanner.skipWhitespace();
+        const char = scanner.peek();
+        if (char === close || char === '@' || char === '') break;
+        if (char === ',') {
+            scanner.pos++;
+            continue;
+        }
+
+        const nameStart = scanner.pos;
+        while (!scanner.done && /[^\s=,{}()"#]/.test(scanner.peek())) scanner.pos++;
+        const name = text.slice(nameStart, scanner.pos).toLowerCase();
+        scanner.skipWhitespace();
+
+        if (!name || scanner.peek() !== '=') {
+            // Not a field; skip the stray character so parsing can recover
+            if (scanner.pos === nameStart) scanner.pos++;
+            continue;
+        }
+        scanner.pos++;
+        scanner.skipWhitespace();
+
+        const valueStart = scanner.pos;
+        const value = parseValue(scanner, close, macros);
+        const raw = text.slice(valueStart, scanner.pos).trim();
+
+        const afterValue = scanner.pos;
+        scanner.skipWhitespace();
+        if (scanner.peek() === ',') {
+            scanner.pos++;
+        } else {
+            scanner.pos = afterValue;
+        }
+
+        fields.push({
+            name,
+            value: normalizeValue(value),
+            raw,
+            start: nameStart - base,
+            end: scanner.pos - base
+        });
+    }
+
+    return fields;
+}
+
+/**
+ * Parses a value made of braced, quoted, numeric or macro parts joined by "#"
+ */
+function parseValue(scanner: Scanner, close: string, macros: Record<string, string>): string {
+    const text = scanner.text;
+    let value = '';
+
+    while (!scanner.done) {
+        scanner.skipWhitespace();
+        const char = scanner.peek();
+
+        if (char === '{') {
+            const end = findClosing(text, scanner.pos + 1, '{', '}');
+            value += text.slice(scanner.pos + 1, end - 1);
+            scanner.pos = end;
+        } else if (char === '"') {
+            const end = findQuoteEnd(text, scanner.pos + 1);
+            value += text.slice(scanner.pos + 1, end - 1);
+            scanner.pos = end;
+        } else {
+            const start = scanner.pos;
+            while (!scanner.done && /[^\s,#{}"]/.test(scanner.peek()) && scanner.peek() !== close) scanner.pos++;
+            const word = text.slice(start, scanner.pos);
+            if (!word) break;
+            value += /^\d+$/.test(word) ? word : (macros[word.toLowerCase()] ?? word);
+        }
+
+        const afterPart = scanner.pos;
+        scanner.skipWhitespace();
+        if (scanner.peek() === '#') {
+            scanner.pos++;
+        } else {
+            scanner.pos = afterPart;
+            break;
+        }
+    }
+
+    return value;
+}
+
+/**
+ * Strips grouping braces, unescapes common LaTeX escapes and collapses whitespace
+ */
+function normalizeValue(value: string): string {
+    let result = '';
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+        if (char === '\\' && /[&%$#_{}]/.test(value[i + 1] ?? '')) {
+            result += value[++i];
+        } else if (char !== '{' && char !== '}') {
+            result += char;
+        }
+    }
+    return result.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Returns the offset just past the delimiter that closes a group opened before `start`
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === open) {
+            depth++;
+        } else if (char === close) {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Returns the offset just past the closing quote; quotes inside braces do not count
+ */
+function findQuoteEnd(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            depth--;
+        } else if (char === '"' && depth === 0) {
+            return i + 1;
+        }
+    }
+    return text.length;
+}
+
+function skipClosing(scanner: Scanner, close: string): void {
+    const start = scanner.pos;
+    scanner.skipWhitespace();
+    if (scanner.peek() === close) {
+        scanner.pos++;
+    } else {
+        scanner.pos = start;
+    }
+}
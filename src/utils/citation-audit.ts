@@ -0,0 +1,112 @@
+/**
+ * Compares the `[!logos]` callouts in the vault with the Citations lists of the reference notes
+ */
+
+import { CitationLink } from './citation-links';
+
+/**
+ * A callout with a block ID, and the reference note its link resolves to
+ */
+export interface CalloutRecord {
+    sourcePath: string;
+    blockId: string;
+    referencePath: string;
+    page: string | null;
+}
+
+/**
+ * A Citations entry, and the note its link resolves to (null when it resolves to nothing)
+ */
+export interface CitationRecord {
+    referencePath: string;
+    link: CitationLink;
+    targetPath: string | null;
+}
+
+export type CitationIssueKind = 'missing' | 'dead' | 'duplicate';
+
+export interface CitationIssue {
+    kind: CitationIssueKind;
+    referencePath: string;
+    /** The note holding the callout, or the note a dead link was meant for */
+    sourcePath: string | null;
+    blockId: string;
+    page: string | null;
+    /** The Citations entry at fault; absent for missing entries */
+    link: CitationLink | null;
+}
+
+/**
+ * Finds callouts not listed in their reference note (missing), Citations entries whose
+ * note or block ID is gone (dead), and callouts listed more than once (duplicate)
+ */
+export function auditCitations(
+    callouts: CalloutRecord[],
+    citations: CitationRecord[],
+    blockIdsByPath: Map<string, Set<string>>
+): CitationIssue[] {
+    const issues: CitationIssue[] = [];
+    const listed = new Set<string>();
+
+    citations.forEach(citation => {
+        const { referencePath, link, targetPath } = citation;
+        if (!targetPath || !blockIdsByPath.get(targetPath)?.has(link.blockId)) {
+            issues.push({ kind: 'dead', referencePath, sourcePath: targetPath, blockId: link.blockId, page: null, link });
+            return;
+        }
+
+        const key = citationKey(referencePath, targetPath, link.blockId);
+        if (listed.has(key)) {
+            issues.push({ kind: 'duplicate', referencePath, sourcePath: targetPath, blockId: link.blockId, page: null, link });
+        }
+        listed.add(key);
+    });
+
+    callouts.forEach(callout => {
+        if (!listed.has(citationKey(callout.referencePath, callout.sourcePath, callout.blockId))) {
+            issues.push({
+                kind: 'missing',
+                referencePath: callout.referencePath,
+                sourcePath: callout.sourcePath,
+                blockId: callout.blockId,
+                page: callout.page,
+                link: null
+            });
+        }
+    });
+
+    return issues;
+}
+
+function citationKey(referencePath: string, sourcePath: string, blockId: string): string {
+    return `${referencePath}\n${sourcePath}\n${blockId}`;
+}
+
+export type FixOutcome = 'fixed' | 'failed' | 'error';
+
+/**
+ * Wraps the fix for one issue so it can be retried after it fails, and does nothing once it has succeeded
+ */
+export function createRetryableFix(
+    run: () => Promise<boolean>,
+    onStart: () => void,
+    onSettled: (outcome: FixOutcome, error?: unknown) => void
+): () => Promise<boolean> {
+    let state: 'idle' | 'running' | 'fixed' = 'idle';
+    return async () => {
+        if (state === 'fixed') return true;
+        if (state === 'running') return false;
+        state = 'running';
+        onStart();
+        try {
+            const ok = await run();
+            state = ok ? 'fixed' : 'idle';
+            onSettled(ok ? 'fixed' : 'failed');
+            return ok;
+        } catch (error) {
+            state = 'idle';
+            onSettled('error', error);
+            return false;
+        }
+    };
+}
@@ -0,0 +1,349 @@
+/**
+ * Utility functions for recognizing the non-BibTeX citation styles Logos can copy
+ *
+ * RIS blocks and common footnote or bibliography styles (SBL, Chicago, Turabian,
+ * APA, MLA) are converted into BibTeX so the rest of the pipeline only deals
+ * with one format.
+ */
+
+import { formatBibtexEntry } from './bibtex-parser';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'footnote' | 'bibliography' | 'apa';
+
+export interface DetectedCitation {
+    format: CitationFormat;
+    /** Offset where the citation starts in the searched text */
+    start: number;
+    /** Offset just past the citation in the searched text */
+    end: number;
+    /** The citation converted to a BibTeX entry */
+    bibtex: string;
+    page: string | null;
+}
+
+interface CitationParts {
+    type: string;
+    authors: string[];
+    title: string | null;
+    year: string | null;
+    extra: Array<[string, string]>;
+    page: string | null;
+}
+
+const RIS_BLOCK = /^TY {2}- .*$[\s\S]*?^ER {2}-.*$/gm;
+
+const RIS_TYPES: Record<string, string> = {
+    BOOK: 'book',
+    EBOOK: 'book',
+    JOUR: 'article',
+    EJOUR: 'article',
+    MGZN: 'article',
+    CHAP: 'incollection',
+    THES: 'phdthesis',
+    CONF: 'inproceedings'
+};
+
+// Abbreviations whose period does not end a sentence in a bibliography entry
+const ABBREVIATIONS = new Set(['pub', 'co', 'inc', 'jr', 'sr', 'st', 'rev', 'ed', 'eds', 'trans', 'vol', 'vols', 'no', 'repr', 'dr', 'mt']);
+
+const PAGE = String.raw`[\divxlc]+(?:\s*[–-]\s*[\divxlc]+)?`;
+
+const FOOTNOTE_BOOK = new RegExp(String.raw`^(?<names>[^,\d]+?), (?<title>.+) \((?<pub>[^()]*?)(?:,\s*)?(?<year>\d{4})\)(?:,\s*(?<page>${PAGE}))?\.?$`, 'i');
+
+const FOOTNOTE_ARTICLE = new RegExp(String.raw`^(?<names>[^,\d]+?), [“"](?<title>.+?),?[”"],? (?<journal>.+?) (?<volume>\d+)(?:, no\. (?<number>\d+))? \((?<year>[^()]*?\d{4})\)(?::\s*(?<page>${PAGE}))?\.?$`, 'i');
+
+const APA = new RegExp(String.raw`^(?<names>[^()\d]+?) \((?<year>\d{4})[a-z]?\)\. (?<title>.+?)(?: \(pp?\. (?<page>${PAGE})\))?\. (?<pub>.+?)\.?$`, 'i');
+
+const PUBLICATION = /^(?:(?<place>[^:]+):\s*)?(?<publisher>.+?)(?:,\s*(?<year>\d{4}))?$/;
+
+/**
+ * Finds every RIS block in the text
+ */
+export function findRisCitations(text: string): DetectedCitation[] {
+    const citations: DetectedCitation[] = [];
+    const pattern = new RegExp(RIS_BLOCK.source, RIS_BLOCK.flags);
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+        const parts = parseRis(match[0]);
+        citations.push({
+            format: 'ris',
+            start: match.index,
+            end: match.index + match[0].length,
+            bibtex: toBibtex(parts),
+            page: parts.page
+        });
+    }
+
+    return citations;
+}
+
+/**
+ * Detects a citation that is not BibTeX: an RIS block anywhere in the text, or a
+ * footnote or bibliography style citation in the last paragraph
+ */
+export function detectCitation(text: string): DetectedCitation | null {
+    const ris = findRisCitations(text)[0];
+    if (ris) return ris;
+
+    const trimmedEnd = text.trimEnd();
+    const start = trimmedEnd.lastIndexOf('\n') + 1;
+    const line = trimmedEnd.slice(start).trim();
+    if (!line) return null;
+
+    const styled = parseFootnote(line) ?? parseApa(line) ?? parseBibliography(line);
+    if (!styled) return null;
+
+    return {
+        format: styled.format,
+        start: start + trimmedEnd.slice(start).search(/\S/),
+        end: trimmedEnd.length,
+        bibtex: toBibtex(styled.parts),
+        page: styled.parts.page
+    };
+}
+
+/**
+ * Builds a Logos-style cite key, e.g. "Waltke_Yu_2007", from author names in "Last, First" form
+ */
+export function generateCiteKey(authors: string[], year: string | null, title: string | null): string {
+    const lastNames = authors
+        .slice(0, 2)
+        .map(author => author.split(',')[0].replace(/[^\p{L}\d]/gu, ''))
+        .filter(Boolean);
+
+    const base = lastNames.length > 0
+        ? lastNames
+        : [(title ?? 'citation').split(/\s+/).find(word => word.length > 3) ?? 'citation'].map(word => word.replace(/[^\p{L}\d]/gu, ''));
+
+    return [...base, year].filter(Boolean).join('_');
+}
+
+function parseRis(block: string): CitationParts {
+    const tags: Record<string, string[]> = {};
+    block.split(/\r?\n/).forEach(line => {
+        const match = line.match(/^([A-Z][A-Z0-9]) {2}- ?(.*)$/);
+        if (!match || !match[2].trim()) return;
+        (tags[match[1]] ??= []).push(match[2].trim());
+    });
+
+    const first = (...names: string[]): string | null => {
+        for (const name of names) {
+            if (tags[name]?.length) return tags[name][0];
+        }
+        return null;
+    };
+
+    const type = RIS_TYPES[first('TY') ?? ''] ?? 'misc';
+    const startPage = first('SP');
+    const endPage = first('EP');
+    const container = first('T2', 'JO', 'JF', 'BT');
+    const year = first('PY', 'Y1', 'DA')?.match(/\d{4}/)?.[0] ?? null;
+
+    const extra: Array<[string, string]> = [];
+    if (container) extra.push([type === 'article' ? 'journal' : 'booktitle', container]);
+    const optional: Array<[string, string | null]> = [
+        ['place', first('CY', 'PP')],
+        ['publisher', first('PB')],
+        ['volume', first('VL')],
+        ['number', first('IS')],
+        ['edition', first('ET')],
+        ['series', first('T3')],
+        ['isbn', first('SN')],
+        ['url', first('UR')]
+    ];
+    optional.forEach(([name, value]) => {
+        if (value) extra.push([name, value]);
+    });
+
+    return {
+        type,
+        authors: [...(tags['AU'] ?? []), ...(tags['A1'] ?? [])],
+        title: first('TI', 'T1'),
+        year,
+        extra,
+        page: startPage ? (endPage && endPage !== startPage ? `${startPage}–${endPage}` : startPage) : null
+    };
+}
+
+/**
+ * SBL and Chicago notes style, e.g.
+ * "Wayne A. Grudem, Systematic Theology (Grand Rapids, MI: Zondervan, 2004), 1009."
+ */
+function parseFootnote(line: string): { format: CitationFormat, parts: CitationParts } | null {
+    const article = line.match(FOOTNOTE_ARTICLE)?.groups;
+    if (article) {
+        const extra: Array<[string, string]> = [['journal', article.journal], ['volume', article.volume]];
+        if (article.number) extra.push(['number', article.number]);
+        return {
+            format: 'footnote',
+            parts: {
+                type: 'article',
+                authors: parseNaturalNames(article.names),
+                title: article.title,
+                year: article.year.match(/\d{4}/)?.[0] ?? null,
+                extra,
+                page: article.page ?? null
+            }
+        };
+    }
+
+    const book = line.match(FOOTNOTE_BOOK)?.groups;
+    if (!book || !looksLikeNames(book.names)) return null;
+
+    return {
+        format: 'footnote',
+        parts: {
+            type: 'book',
+            authors: parseNaturalNames(book.names),
+            title: book.title,
+            year: book.year,
+            extra: parsePublication(book.pub),
+            page: book.page ?? null
+        }
+    };
+}
+
+/**
+ * APA style, e.g. "Grudem, W. A. (2004). Systematic theology (p. 1009). Grand Rapids, MI: Zondervan."
+ */
+function parseApa(line: string): { format: CitationFormat, parts: CitationParts } | null {
+    const apa = line.match(APA)?.groups;
+    if (!apa || !apa.names.includes(',')) return null;
+
+    return {
+        format: 'apa',
+        parts: {
+            type: 'book',
+            authors: parseApaNames(apa.names),
+            title: apa.title,
+            year: apa.year,
+            extra: parsePublication(apa.pub),
+            page: apa.page ?? null
+        }
+    };
+}
+
+/**
+ * Chicago bibliography, Turabian and MLA style, e.g.
+ * "Grudem, Wayne A. Systematic Theology. Grand Rapids, MI: Zondervan, 2004."
+ */
+function parseBibliography(line: string): { format: CitationFormat, parts: CitationParts } | null {
+    const sentences = splitSentences(line);
+    if (sentences.length < 3) return null;
+
+    const [names, title] = sentences;
+    const publication = sentences.slice(2).find(sentence => /:\s*.+,\s*\d{4}$/.test(sentence));
+    if (!publication || !names.includes(',') || !looksLikeNames(names)) return null;
+
+    const extra = parsePublication(publication);
+    const year = publication.match(/(\d{4})$/)?.[1] ?? null;
+
+    return {
+        format: 'bibliography',
+        parts: {
+            type: 'book',
+            authors: parseInvertedNames(names),
+            title,
+            year,
+            extra,
+            page: null
+        }
+    };
+}
+
+/**
+ * Splits "Place: Publisher, Year" into BibTeX fields
+ */
+function parsePublication(publication: string): Array<[string, string]> {
+    const groups = publication.trim().match(PUBLICATION)?.groups;
+    const extra: Array<[string, string]> = [];
+    if (groups?.place) extra.push(['place', groups.place.trim()]);
+    if (groups?.publisher) extra.push(['publisher', groups.publisher.trim()]);
+    return extra;
+}
+
+/**
+ * Splits on sentence-ending periods, skipping initials and common abbreviations.
+ * In a single inverted author name ("Grudem, Wayne A.") a trailing initial ends the sentence.
+ */
+function splitSentences(line: string): string[] {
+    const sentences: string[] = [];
+    const words = line.split(/\s+/);
+    let current = '';
+
+    words.forEach((word, index) => {
+        current = current ? `${current} ${word}` : word;
+        if (!current.endsWith('.')) return;
+
+        const stem = word.replace(/\.$/, '');
+        const isInitial = /^\p{Lu}$/u.test(stem);
+        const nextIsInitial = /^\p{Lu}\.,?$/u.test(words[index + 1] ?? '');
+        const endsAuthor = isInitial && !nextIsInitial && sentences.length === 0
+            && current.includes(',') && !/\band\b|&/.test(current);
+
+        if ((!isInitial || endsAuthor) && !ABBREVIATIONS.has(stem.toLowerCase())) {
+            sentences.push(endsAuthor ? current : current.slice(0, -1));
+            current = '';
+        }
+    });
+
+    if (current) sentences.push(current);
+    return sentences;
+}
+
+function looksLikeNames(names: string): boolean {
+    return names.length <= 120 && /^\p{Lu}/u.test(names.trim()) && !/\d/.test(names);
+}
+
+/**
+ * "Bruce K. Waltke and Charles Yu" → ["Waltke, Bruce K.", "Yu, Charles"]
+ */
+function parseNaturalNames(names: string): string[] {
+    return names
+        .replace(/,?\s+et al\.?$/, '')
+        .split(/,\s+and\s+|\s+and\s+|,\s+/)
+        .map(name => invertName(name.trim()))
+        .filter(Boolean);
+}
+
+/**
+ * "Waltke, Bruce K., and Charles Yu" → ["Waltke, Bruce K.", "Yu, Charles"]
+ */
+function parseInvertedNames(names: string): string[] {
+    const [first, ...others] = names.split(/,?\s+and\s+/);
+    const [last, given, ...rest] = first.split(/,\s+/);
+    const authors = [given ? `${last}, ${given}` : last];
+    [...rest, ...others].forEach(name => authors.push(invertName(name.trim())));
+    return authors.filter(Boolean);
+}
+
+/**
+ * "Waltke, B. K., & Yu, C." → ["Waltke, B. K.", "Yu, C."]
+ */
+function parseApaNames(names: string): string[] {
+    const tokens = names.replace(/,?\s*&\s*/g, ', ').split(/,\s*/).filter(Boolean);
+    const authors: string[] = [];
+    for (let i = 0; i < tokens.length; i += 2) {
+        authors.push(tokens[i + 1] ? `${tokens[i]}, ${tokens[i + 1]}` : tokens[i]);
+    }
+    return authors;
+}
+
+function invertName(name: string): string {
+    const words = name.split(/\s+/).filter(Boolean);
+    if (words.length < 2) return name;
+    const last = words.pop();
+    return `${last}, ${words.join(' ')}`;
+}
+
+function toBibtex(parts: CitationParts): string {
+    const key = generateCiteKey(parts.authors, parts.year, parts.title);
+    const fields: Array<[string, string]> = [];
+    if (parts.title) fields.push(['title', parts.title]);
+    fields.push(...parts.extra);
+    if (parts.authors.length > 0) fields.push(['author', parts.authors.join(' and ')]);
+    if (parts.year) fields.push(['year', parts.year]);
+    if (parts.page) fields.push(['pages', parts.page]);
+    return formatBibtexEntry(parts.type, key, fields);
+}
@@ -0,0 +1,117 @@
+/**
+ * Utility functions for the block IDs of pasted callouts and the backlinks to them
+ * listed under "## Citations" in reference notes
+ */
+
+export interface CitationLink {
+    /** The link target as written, e.g. `Sermons/Grace` */
+    linkpath: string;
+    blockId: string;
+    /** Offsets of the whole `[[...]]` link in the note */
+    start: number;
+    end: number;
+}
+
+const CITATIONS_SECTION_PATTERN = /^## Citations[ \t]*$([\s\S]*?)(?=^#{1,6}\s|(?![\s\S]))/gm;
+const CITATION_LINK_PATTERN = /\[\[([^\]|#\n]+)#\^([\w-]+)(\|[^\]\n]*)?\]\]/g;
+const BLOCK_ID_PATTERN = /(?:^|[ \t])\^([\w-]+)[ \t]*$/gm;
+
+/**
+ * Finds the block-reference links in the Citations sections of a reference note
+ */
+export function findCitationLinks(content: string): CitationLink[] {
+    const links: CitationLink[] = [];
+    const sections = new RegExp(CITATIONS_SECTION_PATTERN.source, CITATIONS_SECTION_PATTERN.flags);
+    let section: RegExpExecArray | null;
+    while ((section = sections.exec(content)) !== null) {
+        const sectionStart = section.index;
+        const pattern = new RegExp(CITATION_LINK_PATTERN.source, CITATION_LINK_PATTERN.flags);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(section[0])) !== null) {
+            links.push({
+                linkpath: match[1].trim(),
+                blockId: match[2],
+                start: sectionStart + match.index,
+                end: sectionStart + match.index + match[0].length
+            });
+        }
+        if (section[0].length === 0) sections.lastIndex++;
+    }
+    return links;
+}
+
+/**
+ * Returns true when a link target written as `linkpath` can point to the note at `path`
+ */
+export function linkpathMatches(linkpath: string, path: string): boolean {
+    const target = linkpath.replace(/\.md$/i, '').toLowerCase();
+    const full = path.replace(/\.md$/i, '').toLowerCase();
+    return target === full || target === full.split('/').pop() || full.endsWith(`/${target}`);
+}
+
+/**
+ * Points the citation links for a renamed note at its new link text.
+ * Only links to block IDs that exist in the renamed note are changed, so a
+ * same-named note in another folder keeps its backlinks.
+ */
+export function renameCitationLinks(content: string, oldPath: string, newLinkpath: string, blockIds: string[]): string {
+    const ids = new Set(blockIds);
+    const links = findCitationLinks(content)
+        .filter(link => linkpathMatches(link.linkpath, oldPath) && ids.has(link.blockId) && link.linkpath !== newLinkpath);
+
+    let updated = content;
+    // Replace from the end so earlier offsets stay valid
+    for (const link of links.reverse()) {
+        const original = updated.slice(link.start, link.end);
+        const replaced = original.replace(/^\[\[[^\]|#\n]+#/, `[[${newLinkpath}#`);
+        updated = updated.slice(0, link.start) + replaced + updated.slice(link.end);
+    }
+    return updated;
+}
+
+/**
+ * Removes the Citations list items whose link is dead
+ */
+export function pruneCitationLinks(content: string, isDead: (link: CitationLink) => boolean): { content: string, removed: number } {
+    const lines = new Map<number, number>();
+    findCitationLinks(content).filter(isDead).forEach(link => {
+        const lineStart = content.lastIndexOf('\n', link.start - 1) + 1;
+        // Only whole list items are removed; a link inside other text is left alone
+        if (!/^\s*[-*+]\s/.test(content.slice(lineStart, link.start))) return;
+        const newline = content.indexOf('\n', link.end);
+        lines.set(lineStart, newline === -1 ? content.length : newline + 1);
+    });
+
+    let updated = content;
+    const removed = lines.size;
+    // Remove from the end so earlier offsets stay valid
+    Array.from(lines.entries()).sort(([a], [b]) => b - a).forEach(([start, end]) => {
+        updated = updated.slice(0, start) + updated.slice(end);
+    });
+    return { content: removed > 0 ? updated.replace(/\n+$/, '\n') : content, removed };
+}
+
+/**
+ * Lists the `^blockId`s defined in a note
+ */
+export function findBlockIds(content: string): string[] {
+    const pattern = new RegExp(BLOCK_ID_PATTERN.source, BLOCK_ID_PATTERN.flags);
+    const ids: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+        ids.push(match[1]);
+    }
+    return ids;
+}
+
+/**
+ * Works out the next callout number for a note from the `^citeKey-N` IDs it already has
+ * and the stored counter, so an ID is never handed out twice
+ */
+export function getNextBlockNumber(content: string, storedCounter: number = 0): number {
+    const highest = findBlockIds(content).reduce((max, id) => {
+        const number = /-(\d+)$/.exec(id);
+        return number ? Math.max(max, parseInt(number[1], 10)) : max;
+    }, 0);
+    return Math.max(highest, storedCounter) + 1;
+}
@@ -0,0 +1,51 @@
+/**
+ * Utility functions for editing a parsed citation before it is pasted
+ */
+
+import { getBibtexField, parseBibtexEntry, setBibtexField, stringifyBibtexEntry } from './bibtex-parser';
+import { withCiteKey } from './bibtex-export';
+import { ParsedClipboard } from './clipboard-parser';
+
+/**
+ * The parts of a citation the review modal lets the user correct
+ */
+export interface CitationFields {
+    quote: string;
+    citeKey: string;
+    title: string;
+    page: string;
+    reflyLink: string;
+}
+
+export function getCitationFields(citation: ParsedClipboard): CitationFields {
+    const entry = parseBibtexEntry(citation.bibtex);
+    return {
+        quote: citation.mainText,
+        citeKey: entry?.key ?? '',
+        title: entry ? getBibtexField(entry, 'title') ?? '' : '',
+        page: citation.page ?? '',
+        reflyLink: citation.reflyLink ?? ''
+    };
+}
+
+/**
+ * Returns a copy of the citation with the edited fields; a new cite key or title is written into its BibTeX
+ */
+export function applyCitationFields(citation: ParsedClipboard, fields: CitationFields): ParsedClipboard {
+    let entry = parseBibtexEntry(citation.bibtex);
+    if (entry) {
+        const citeKey = fields.citeKey.trim();
+        const title = fields.title.trim();
+        if (citeKey && citeKey !== entry.key) entry = withCiteKey(entry, citeKey);
+        if (title && title !== (getBibtexField(entry, 'title') ?? '')) entry = setBibtexField(entry, 'title', title);
+    }
+
+    return {
+        ...citation,
+        mainText: fields.quote.trim(),
+        bibtex: entry ? stringifyBibtexEntry(entry) : citation.bibtex,
+        entry: entry ?? citation.entry,
+        page: fields.page.trim() || null,
+        reflyLink: fields.reflyLink.trim() || null
+    };
+}
@@ -2,11 +2,24 @@
  * Utility functions for parsing Logos clipboard content and BibTeX data
  */
 
+import {
+    BibtexEntry,
+    getBibtexField,
+    parseBibtex,
+    parseBibtexEntry,
+    removeBibtexField,
+    stringifyBibtexEntry
+} from './bibtex-parser';
+import { CitationFormat, detectCitation, findRisCitations } from './citation-formats';
+
 export interface ParsedClipboard {
     mainText: string;
     bibtex: string;
     page: string | null;
     reflyLink?: string | null;
+    entry?: BibtexEntry | null;
+    /** The citation style the clipboard used; other styles are converted to BibTeX */
+    format?: CitationFormat;
 }
 
 /**
@@ -15,30 +28,27 @@ export interface ParsedClipboard {
 export function parseLogosClipboard(clipboard: string): ParsedClipboard {
     const trimmed = clipboard.trim();
 
-    // Case 1: Clipboard is just the BibTeX entry
-    if (trimmed.startsWith('@')) {
-        const pageMatch = trimmed.match(/pages\s*=\s*\{([^}]+)\}/i);
-        const page = pageMatch ? pageMatch[1] : null;
-        const bibtex = trimmed.replace(/pages\s*=\s*\{[^}]*\},?\s*\n?/gi, "");
-        return { mainText: "", bibtex, page };
-    }
-
-    // Case 2: Clipboard contains both text and BibTeX
-    // Split on the last occurrence of whitespace followed by @
-    // This is more robust than splitting on only \n
-    const parts = trimmed.split(/\s+(?=@[\w]+{)/);
-
-    if (parts.length < 2) {
-        return { mainText: trimmed, bibtex: "", page: null };
+    let parsedEntry: BibtexEntry | null = findCitationEntries(trimmed)[0] ?? null;
+    let citationStart = parsedEntry?.start ?? 0;
+    let format: CitationFormat = 'bibtex';
+
+    // Logos may be set to another citation style; convert it to BibTeX
+    if (!parsedEntry) {
+        const detected = detectCitation(trimmed);
+        parsedEntry = detected ? parseBibtexEntry(detected.bibtex) : null;
+        if (!detected || !parsedEntry) {
+            return { mainText: trimmed, bibtex: "", page: null, entry: null };
+        }
+        citationStart = detected.start;
+        format = detected.format;
     }
 
-    const mainTextRaw = parts[0].trim();
-    let bibtex = parts[1]?.trim() || "";
+    const mainTextRaw = trimmed.slice(0, citationStart).trim();
 
     // Extract ref.ly link if present anywhere in the clipboard
     const reflyRegex = /https?:\/\/ref\.ly\/[^\s)}]+/;
     const reflyMatch = trimmed.match(reflyRegex);
-    let reflyLink = reflyMatch ? reflyMatch[0] : null;
+    const reflyLink = reflyMatch ? reflyMatch[0] : null;
 
     // Clean mainText by removing the ref.ly link and its container if it's like "(Resource Link: ...)"
     // only if the link was found in the mainText part
@@ -49,24 +59,61 @@ export function parseLogosClipboard(clipboard: string): ParsedClipboard {
         mainText = mainText.replace(reflyLink, "").trim();
     }
 
-    const pageMatch = bibtex.match(/pages\s*=\s*\{([^}]+)\}/i);
-    const page = pageMatch ? pageMatch[1] : null;
+    // The page belongs to the quote, not the book, so it is kept out of the stored entry
+    const page = getBibtexField(parsedEntry, 'pages');
+    const entry = removeBibtexField(parsedEntry, 'pages');
+
+    return { mainText: mainText.trim(), bibtex: stringifyBibtexEntry(entry), page, reflyLink, entry, format };
+}
+
+/**
+ * Splits a clipboard holding several Logos citations into one parsed pair per BibTeX entry
+ * (or RIS block). Each quote is the text between the previous citation and its own citation.
+ */
+export function parseLogosClipboardBatch(clipboard: string): ParsedClipboard[] {
+    const trimmed = clipboard.trim();
+    let citations: Array<{ end: number }> = findCitationEntries(trimmed);
+    if (citations.length === 0) {
+        citations = findRisCitations(trimmed);
+    }
 
-    bibtex = bibtex.replace(/pages\s*=\s*\{[^}]*\},?\s*\n?/gi, "");
+    if (citations.length === 0) {
+        return [parseLogosClipboard(trimmed)];
+    }
 
-    return { mainText: mainText.trim(), bibtex, page, reflyLink };
+    let segmentStart = 0;
+    return citations.map(entry => {
+        const segment = trimmed.slice(segmentStart, entry.end);
+        segmentStart = entry.end;
+        return parseLogosClipboard(segment);
+    });
+}
+
+/**
+ * Finds the BibTeX entries that start a line or follow whitespace,
+ * so an "@" inside the quote text is not mistaken for a citation
+ */
+function findCitationEntries(text: string): BibtexEntry[] {
+    return parseBibtex(text).filter(e =>
+        (e.start === 0 || /\s/.test(text[e.start - 1])) && e.fields.length > 0
+    );
 }
 
 /**
  * Extracts the cite key from BibTeX content
  */
 export function extractCiteKey(bibtex: string): string {
-    const match = bibtex.match(/^@\w+\{([^,]+),/);
-    if (!match) throw new Error("Could not extract cite key");
+    const entry = parseBibtexEntry(bibtex);
+    if (!entry || !entry.key) throw new Error("Could not extract cite key");
 
-    let citeKey = match[1];
-    citeKey = citeKey.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
-    return citeKey;
+    return normalizeCiteKey(entry.key);
+}
+
+/**
+ * Normalizes a raw cite key into a form that is safe for block IDs and note names
+ */
+export function normalizeCiteKey(citeKey: string): string {
+    return citeKey.replace(/[_\W]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
 }
 
 /**
@@ -87,31 +134,14 @@ export function extractPageNumber(text: string): { cleanedText: string, page: st
  * Extracts pages field from BibTeX content
  */
 export function extractPagesFromBibtex(bibtex: string): string | null {
-    const match = bibtex.match(/pages\s*=\s*[{"']([^}"']+)[}"']/i);
-    return match ? match[1] : null;
+    const entry = parseBibtexEntry(bibtex);
+    return entry ? getBibtexField(entry, 'pages') : null;
 }
 
 /**
  * Extracts book title from BibTeX content
  */
 export function extractBookTitle(bibtex: string): string | null {
-    const titleMatch = bibtex.match(/title\s*=\s*\{([^}]+)\}/i);
-    return titleMatch ? titleMatch[1] : null;
-}
-
-/**
- * Cleans and transforms formatting in Logos text
- * - Double underscores (__) to <sup>...</sup>
- * - Single underscores (_) to *...*
- */
-export function cleanFormattedText(text: string): string {
-    if (!text) return text;
-
-    // 1. Handle double underscores first (bold -> superscript)
-    let processed = text.replace(/__(.*?)__/g, '<sup>$1</sup>');
-
-    // 2. Handle single underscores (italics -> asterisk)
-    processed = processed.replace(/_(.*?)_/g, '*$1*');
-
-    return processed;
+    const entry = parseBibtexEntry(bibtex);
+    return entry ? getBibtexField(entry, 'title') || null : null;
 }
@@ -2,12 +2,15 @@
  * Utility functions for file name handling
  */
 
+import { BibtexEntry } from './bibtex-parser';
+import { formatYamlFrontmatter, getMetadataValues, MetadataFieldMapping } from './frontmatter';
+
 /**
  * Sanitizes a note name by removing characters that are invalid in file paths
- * Removes: / \ :
+ * Removes: / \ : * ? " < > |
  */
 export function sanitizeNoteName(name: string): string {
-    return name.replace(/[\\/:]/g, '');
+    return name.replace(/[\\/:*?"<>|]/g, '');
 }
 
 /**
@@ -19,15 +22,20 @@ export function generateNotePath(noteName: string, folder: string): string {
 }
 
 /**
- * Generates YAML frontmatter from a list of metadata fields
+ * Names a reference note after its cite key, or "{Book Title} - References" when that setting is on
  */
-export function generateMetadataFrontmatter(fields: string[]): string {
-    if (fields.length === 0) return '';
+export function getReferenceNoteName(citeKey: string, bookTitle: string | null, appendReferencesToTitle: boolean): string {
+    const noteName = appendReferencesToTitle && bookTitle ? `${bookTitle} - References` : citeKey;
+    return sanitizeNoteName(noteName);
+}
 
-    let metadata = '---\n';
-    fields.forEach(field => {
-        metadata += `${field}: \n`;
-    });
-    metadata += '---\n\n';
-    return metadata;
+/**
+ * Generates YAML frontmatter from a list of metadata fields, filled from a BibTeX entry where mapped
+ */
+export function generateMetadataFrontmatter(
+    fields: string[],
+    mappings: Record<string, MetadataFieldMapping> = {},
+    entry: BibtexEntry | null = null
+): string {
+    return formatYamlFrontmatter(getMetadataValues(fields, mappings, entry));
 }
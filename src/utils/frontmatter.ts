@@ -0,0 +1,114 @@
+/**
+ * Utility functions for filling reference-note properties from BibTeX fields
+ */
+
+import { BibtexEntry } from './bibtex-parser';
+import { formatAuthorNames, getBibtexVariables, renderTemplate, splitAuthorNames, TemplateVariables } from './template-engine';
+
+export type MetadataFieldType = 'text' | 'list' | 'date';
+
+/**
+ * Where a custom metadata field takes its value from
+ */
+export interface MetadataFieldMapping {
+    /** A BibTeX field name such as `publisher`, or a template such as `{{year}}` */
+    source: string;
+    type: MetadataFieldType;
+    /** Used when the source is empty or missing from the entry */
+    defaultValue: string;
+}
+
+export type MetadataValue = string | string[] | null;
+
+// BibTeX separates the names in these fields with "and"
+const NAME_FIELDS = ['author', 'editor', 'translator', 'bookauthor'];
+
+/**
+ * Computes each field's value from a BibTeX entry, in the order of `fields`
+ */
+export function getMetadataValues(
+    fields: string[],
+    mappings: Record<string, MetadataFieldMapping>,
+    entry: BibtexEntry | null
+): Array<[string, MetadataValue]> {
+    const variables = getSourceVariables(entry);
+    return fields.map(field => [field, getMetadataValue(mappings[field], variables)]);
+}
+
+function getMetadataValue(mapping: MetadataFieldMapping | undefined, variables: TemplateVariables): MetadataValue {
+    if (!mapping) return null;
+
+    const source = mapping.source.trim();
+    const sourceValue = source.includes('{{')
+        ? renderTemplate(source, variables).trim()
+        : (variables[source.toLowerCase()] ?? '').trim();
+    const value = sourceValue || mapping.defaultValue.trim();
+    if (!value) return null;
+
+    const isNameList = sourceValue !== '' && NAME_FIELDS.includes(source.toLowerCase());
+    if (mapping.type === 'list') {
+        const items = isNameList ? splitAuthorNames(value) : value.split(/\s*[;,]\s*/);
+        return items.map(item => item.trim()).filter(item => item);
+    }
+    if (mapping.type === 'date') {
+        return normalizeDate(value);
+    }
+    return isNameList ? formatAuthorNames(value) : value;
+}
+
+/**
+ * Raw BibTeX fields by lowercase name, plus the cite key and the year, which may come from `date`
+ */
+function getSourceVariables(entry: BibtexEntry | null): TemplateVariables {
+    if (!entry) return {};
+    const variables: TemplateVariables = {};
+    entry.fields.forEach(field => {
+        variables[field.name] = field.value;
+    });
+    variables.citekey = entry.key;
+    variables.citeKey = entry.key;
+    variables.year = getBibtexVariables(entry).year;
+    return variables;
+}
+
+/**
+ * Turns "2007", "2007-03" or "2007-03-05" into a YAML date, keeping anything else as it is
+ */
+function normalizeDate(value: string): string {
+    const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/.exec(value);
+    if (!match) return value;
+    const [, year, month = '1', day = '1'] = match;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Writes properties as a YAML frontmatter block, quoting values where YAML would misread them
+ */
+export function formatYamlFrontmatter(values: Array<[string, MetadataValue]>): string {
+    if (values.length === 0) return '';
+
+    const lines = values.map(([key, value]) => {
+        const yamlKey = formatYamlScalar(key);
+        if (Array.isArray(value)) {
+            if (value.length === 0) return `${yamlKey}: `;
+            return [`${yamlKey}:`, ...value.map(item => `  - ${formatYamlScalar(item)}`)].join('\n');
+        }
+        return `${yamlKey}: ${value === null ? '' : formatYamlScalar(value)}`;
+    });
+    return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+/**
+ * Quotes a string when YAML would read it as something other than plain text
+ */
+export function formatYamlScalar(value: string): string {
+    const needsQuotes = value === ''
+        || value !== value.trim()
+        || /^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+        || /:(?:\s|$)|\s#|[\n\t]/.test(value)
+        || /^(?:true|false|yes|no|on|off|null|~)$/i.test(value)
+        || /^[-+]?(?:\d[\d_]*)?\.?\d+(?:e[-+]?\d+)?$/i.test(value);
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) || !needsQuotes) return value;
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+}
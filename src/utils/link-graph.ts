@@ -0,0 +1,28 @@
+/**
+ * Utility functions for following links between notes
+ */
+
+/**
+ * Collects the notes reachable from the start notes in at most `depth` steps, in breadth-first order.
+ * Depth 1 is the notes linked directly; start notes are only included when another note links back to them.
+ */
+export function collectLinkedPaths(startPaths: string[], getLinkedPaths: (path: string) => string[], depth: number = 1): string[] {
+    const visited = new Set<string>();
+    const found = new Set<string>();
+    let frontier = Array.from(new Set(startPaths));
+
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+        const next: string[] = [];
+        frontier.forEach(path => {
+            visited.add(path);
+            getLinkedPaths(path).forEach(target => {
+                if (found.has(target)) return;
+                found.add(target);
+                if (!visited.has(target)) next.push(target);
+            });
+        });
+        frontier = next;
+    }
+
+    return Array.from(found);
+}
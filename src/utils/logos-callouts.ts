@@ -0,0 +1,128 @@
+/**
+ * Utility functions for reading the `[!logos]` callouts pasted into notes
+ */
+
+import { findProtectedSpans, maskProtectedSpans } from './markdown-spans';
+import { getLineNumber } from './text-utils';
+
+export interface LogosCallout {
+    /** Offsets of the callout in the note, from its first `>` to the end of its last line */
+    start: number;
+    end: number;
+    /** Zero-based line the callout starts on */
+    line: number;
+    title: string;
+    /** The quoted text without the `> ` prefixes, resource link or reference link */
+    quote: string;
+    /** Target of the link to the reference note, e.g. `References/Grudem_1994.md` */
+    referenceLink: string | null;
+    page: string | null;
+    reflyLink: string | null;
+    blockId: string | null;
+}
+
+const CALLOUT_HEADER_PATTERN = /^>[ \t]*\[!logos\][+-]?[ \t]*(.*)$/i;
+const REFERENCE_LINK_PATTERN = /(?:^|[^!])\[\[([^\]|#\n]+)(?:\|([^\]\n]*))?\]\]/g;
+const REFLY_LINK_PATTERN = /\[[^\]\n]*\]\((https?:\/\/ref\.ly\/[^)\s]+)\)/;
+const BLOCK_ID_PATTERN = /[ \t]*\^([\w-]+)[ \t]*$/;
+
+/**
+ * Finds the `[!logos]` callouts in a note, skipping any inside code blocks or comments
+ */
+export function findLogosCallouts(content: string): LogosCallout[] {
+    const spans = findProtectedSpans(content)
+        .filter(span => span.kind === 'frontmatter' || span.kind === 'code-block' || span.kind === 'comment');
+    const masked = maskProtectedSpans(content, spans);
+    const lines = content.split('\n');
+    const maskedLines = masked.split('\n');
+
+    const callouts: LogosCallout[] = [];
+    let offset = 0;
+    for (let i = 0; i < lines.length; i++) {
+        const header = CALLOUT_HEADER_PATTERN.exec(maskedLines[i]);
+        if (!header) {
+            offset += lines[i].length + 1;
+            continue;
+        }
+
+        const start = offset;
+        const body: string[] = [];
+        let j = i + 1;
+        while (j < lines.length && maskedLines[j].startsWith('>')) {
+            body.push(lines[j]);
+            j++;
+        }
+        // A block ID on its own line straight after the callout belongs to it
+        if (j < lines.length && /^\^[\w-]+[ \t]*$/.test(lines[j])) {
+            body.push(lines[j]);
+            j++;
+        }
+
+        const calloutLines = lines.slice(i, j);
+        const end = start + calloutLines.join('\n').length;
+        callouts.push(parseCallout(content.slice(start, end), header[1].trim(), body, start, getLineNumber(content, start)));
+
+        offset = end + 1;
+        i = j - 1;
+    }
+    return callouts;
+}
+
+function parseCallout(text: string, title: string, body: string[], start: number, line: number): LogosCallout {
+    const blockId = BLOCK_ID_PATTERN.exec(body[body.length - 1] ?? text)?.[1] ?? null;
+    const bodyLines = body.map(l => l.replace(/^>[ \t]?/, '').replace(BLOCK_ID_PATTERN, ''));
+
+    // The reference link is the last wikilink in the callout that is not an embed or a block link
+    let referenceLink: string | null = null;
+    let alias: string | null = null;
+    let linkLine = -1;
+    for (const [index, bodyLine] of bodyLines.entries()) {
+        const pattern = new RegExp(REFERENCE_LINK_PATTERN.source, REFERENCE_LINK_PATTERN.flags);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(bodyLine)) !== null) {
+            referenceLink = match[1].trim();
+            alias = match[2] ?? null;
+            linkLine = index;
+        }
+    }
+
+    const reflyLink = REFLY_LINK_PATTERN.exec(text)?.[1] ?? null;
+    const quoteLines = bodyLines
+        .slice(0, linkLine === -1 ? bodyLines.length : linkLine)
+        .filter(bodyLine => !REFLY_LINK_PATTERN.test(bodyLine) || bodyLine.replace(REFLY_LINK_PATTERN, '').trim() !== '');
+
+    return {
+        start,
+        end: start + text.length,
+        line,
+        title,
+        quote: quoteLines.join('\n').trim(),
+        referenceLink,
+        page: alias ? parsePageLabel(alias) : null,
+        reflyLink,
+        blockId
+    };
+}
+
+/**
+ * Reads the page from a link alias such as "Grudem_1994, pp. 226-227"
+ */
+function parsePageLabel(alias: string): string | null {
+    return /,\s*pp?\.\s*(\S.*)$/.exec(alias)?.[1].trim() ?? null;
+}
+
+/**
+ * Reduces a quote to its words, so the same passage matches whatever formatting or links it has
+ */
+export function normalizeQuoteText(text: string): string {
+    return text
+        .replace(/!?\[\[([^\]|\n]+)\|([^\]\n]*)\]\]/g, '$2')
+        .replace(/!?\[\[([^\]\n]+)\]\]/g, '$1')
+        .replace(/!?\[([^\]\n]*)\]\([^)\n]*\)/g, '$1')
+        .replace(/<[^>\n]+>/g, '')
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
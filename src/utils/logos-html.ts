@@ -0,0 +1,334 @@
+/**
+ * Utility functions for converting the HTML Logos puts on the clipboard into Markdown
+ *
+ * Logos marks up its text with inline styles rather than semantic tags, so the
+ * styling is read from each element and mapped on purpose: italics and bold to
+ * asterisks, small caps to capitals (LORD), superscripts such as verse numbers
+ * and footnote markers to <sup>, and block elements to paragraph breaks. Text is
+ * otherwise kept as it is, so Greek and Hebrew and real underscores survive.
+ */
+
+interface TextStyle {
+    italic: boolean;
+    bold: boolean;
+    smallCaps: boolean;
+    script: 'sup' | 'sub' | null;
+    link: string | null;
+}
+
+type Run = { text: string; style: TextStyle } | { lineBreak: '\n' | '\n\n' };
+
+interface OpenElement {
+    name: string;
+    style: TextStyle;
+}
+
+type Marker = 'link' | 'script' | 'bold' | 'italic';
+
+// Outermost first; inner markers are closed before outer ones
+const MARKER_ORDER: Marker[] = ['link', 'script', 'bold', 'italic'];
+
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'header', 'hr', 'li', 'ol', 'p', 'pre', 'section', 'table', 'tr', 'ul'
+]);
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+const HIDDEN_ELEMENTS = new Set(['head', 'script', 'style', 'title', 'template']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    laquo: '«', raquo: '»', middot: '·', sect: '§', para: '¶', dagger: '†', Dagger: '‡', thinsp: ' ', shy: ''
+};
+
+const TAG_REGEX = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+const ATTRIBUTE_REGEX = /([^\s"'=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const PLAIN_STYLE: TextStyle = { italic: false, bold: false, smallCaps: false, script: null, link: null };
+
+/**
+ * Converts Logos clipboard HTML to Markdown.
+ * Only the copied fragment is converted when the HTML marks one with StartFragment/EndFragment comments.
+ */
+export function logosHtmlToMarkdown(html: string): string {
+    return renderRuns(collectRuns(getFragment(html)));
+}
+
+/**
+ * Returns the part of the clipboard HTML that was copied, without the document around it
+ */
+function getFragment(html: string): string {
+    const fragment = html.match(/<!--\s*StartFragment\s*-->([\s\S]*?)<!--\s*EndFragment\s*-->/i);
+    if (fragment) return fragment[1];
+    const body = html.match(/<body[^>]*>([\s\S]*?)(?:<\/body>|$)/i);
+    return body ? body[1] : html;
+}
+
+/**
+ * Walks the tags and text of the HTML, recording each piece of text with the style it is shown in
+ */
+function collectRuns(html: string): Run[] {
+    const runs: Run[] = [];
+    const stack: OpenElement[] = [];
+    let hidden = 0;
+
+    for (const match of html.matchAll(TAG_REGEX)) {
+        const [token, closing, rawName, rawAttributes] = match;
+        if (token.startsWith('<!') || token.startsWith('<?')) continue;
+
+        if (!rawName) {
+            if (hidden > 0) continue;
+            const style = stack.length > 0 ? stack[stack.length - 1].style : PLAIN_STYLE;
+            runs.push({ text: decodeEntities(token), style });
+            continue;
+        }
+
+        const name = rawName.toLowerCase();
+        if (closing) {
+            const index = stack.map(element => element.name).lastIndexOf(name);
+            if (index === -1) continue;
+            stack.splice(index);
+            if (HIDDEN_ELEMENTS.has(name)) hidden = Math.max(0, hidden - 1);
+            if (BLOCK_ELEMENTS.has(name) && hidden === 0) runs.push({ lineBreak: '\n\n' });
+            continue;
+        }
+
+        if (HIDDEN_ELEMENTS.has(name)) {
+            hidden++;
+            stack.push({ name, style: PLAIN_STYLE });
+            continue;
+        }
+        if (hidden > 0) continue;
+
+        if (name === 'br') {
+            runs.push({ lineBreak: '\n' });
+            continue;
+        }
+        if (BLOCK_ELEMENTS.has(name)) runs.push({ lineBreak: '\n\n' });
+        if (VOID_ELEMENTS.has(name) || rawAttributes.trim().endsWith('/')) continue;
+
+        const parent = stack.length > 0 ? stack[stack.length - 1].style : PLAIN_STYLE;
+        stack.push({ name, style: getElementStyle(name, parseAttributes(rawAttributes), parent) });
+    }
+
+    return runs;
+}
+
+/**
+ * Works out how an element shows its text from its tag, inline style and the style it inherits
+ */
+function getElementStyle(name: string, attributes: Record<string, string>, parent: TextStyle): TextStyle {
+    const style: TextStyle = { ...parent };
+    const css = parseStyle(attributes.style ?? '');
+
+    if (name === 'i' || name === 'em' || name === 'cite') style.italic = true;
+    if (name === 'b' || name === 'strong') style.bold = true;
+    if (name === 'sup') style.script = 'sup';
+    if (name === 'sub') style.script = 'sub';
+
+    if (css['font-style']) style.italic = /italic|oblique/.test(css['font-style']);
+    if (css['font-weight']) style.bold = isBoldWeight(css['font-weight']);
+    const variant = css['font-variant-caps'] ?? css['font-variant'];
+    if (variant) style.smallCaps = variant.includes('small-caps');
+    if (css['text-transform'] === 'uppercase') style.smallCaps = true;
+    if (css['vertical-align']) {
+        const align = css['vertical-align'];
+        style.script = align.startsWith('super') ? 'sup' : align.startsWith('sub') ? 'sub' : null;
+    }
+
+    if (isFootnoteMarker(name, attributes)) {
+        style.script = 'sup';
+        style.link = null;
+    } else if (name === 'a' && /^https?:\/\//i.test(attributes.href ?? '')) {
+        style.link = attributes.href;
+    }
+
+    return style;
+}
+
+/**
+ * Footnote markers link to the note inside the resource, which means nothing outside Logos
+ */
+function isFootnoteMarker(name: string, attributes: Record<string, string>): boolean {
+    if (/footnote/i.test(attributes.class ?? '')) return true;
+    if (name !== 'a') return false;
+    const href = attributes.href ?? '';
+    return href.startsWith('#') || /footnote/i.test(href);
+}
+
+function isBoldWeight(weight: string): boolean {
+    if (weight === 'bold' || weight === 'bolder') return true;
+    const numeric = parseInt(weight, 10);
+    return !isNaN(numeric) && numeric >= 600;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of raw.matchAll(ATTRIBUTE_REGEX)) {
+        attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+    return attributes;
+}
+
+function parseStyle(style: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    style.split(';').forEach(declaration => {
+        const colon = declaration.indexOf(':');
+        if (colon === -1) return;
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        properties[property] = declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+    });
+    return properties;
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity: string, code: string) => {
+        if (code.startsWith('#')) {
+            const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+        }
+        return NAMED_ENTITIES[code] ?? entity;
+    });
+}
+
+/**
+ * Writes the runs out as Markdown, opening and closing markers only where the style changes
+ * and keeping spaces outside them, since Markdown emphasis cannot start or end with a space
+ */
+function renderRuns(runs: Run[]): string {
+    clearLinksShowingTheirUrl(runs);
+
+    let output = '';
+    const open: Marker[] = [];
+    let current: TextStyle = PLAIN_STYLE;
+    let pendingSpace = '';
+    let pendingBreak = '';
+
+    const closeMarkers = (count: number) => {
+        while (open.length > count) {
+            output += closingMarker(open.pop() as Marker, current);
+        }
+    };
+
+    runs.forEach(run => {
+        if ('lineBreak' in run) {
+            closeMarkers(0);
+            pendingSpace = '';
+            // Two line breaks in a row, e.g. <br><br>, also start a new paragraph
+            if (output) pendingBreak = pendingBreak || run.lineBreak === '\n\n' ? '\n\n' : '\n';
+            return;
+        }
+
+        const text = formatText(run.text, run.style);
+        const core = text.trim();
+        if (!core) {
+            if (text) pendingSpace = ' ';
+            return;
+        }
+        const leading = text.startsWith(' ');
+        const trailing = text.endsWith(' ');
+
+        const wanted = getMarkers(run.style);
+        const keep = open.findIndex((marker, index) => wanted[index] !== marker || !sameMarker(marker, current, run.style));
+        closeMarkers(keep === -1 ? open.length : keep);
+
+        if (pendingBreak) {
+            output = output.trimEnd() + pendingBreak;
+            pendingBreak = '';
+        } else if (output && (pendingSpace || leading)) {
+            output += ' ';
+        }
+        pendingSpace = '';
+
+        current = run.style;
+        wanted.slice(open.length).forEach(marker => {
+            output += openingMarker(marker, run.style);
+            open.push(marker);
+        });
+        output += core;
+        if (trailing) pendingSpace = ' ';
+    });
+    closeMarkers(0);
+
+    return escapeLineStarts(output.split('\n').map(line => line.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim());
+}
+
+/**
+ * Links whose text is their own URL are kept as plain text, like the rest of the clipboard
+ */
+function clearLinksShowingTheirUrl(runs: Run[]): void {
+    let start = 0;
+    while (start < runs.length) {
+        const first = runs[start];
+        const link = 'text' in first ? first.style.link : null;
+        let end = start + 1;
+        if (!link) {
+            start = end;
+            continue;
+        }
+        while (end < runs.length) {
+            const run = runs[end];
+            if (!('text' in run) || run.style.link !== link) break;
+            end++;
+        }
+        const group = runs.slice(start, end) as Array<{ text: string; style: TextStyle }>;
+        const text = group.map(run => run.text).join('').trim();
+        if (!text || text === link || text === link.replace(/^https?:\/\//i, '')) {
+            group.forEach(run => run.style = { ...run.style, link: null });
+        }
+        start = end;
+    }
+}
+
+function getMarkers(style: TextStyle): Marker[] {
+    return MARKER_ORDER.filter(marker => {
+        if (marker === 'link') return style.link !== null;
+        if (marker === 'script') return style.script !== null;
+        return style[marker];
+    });
+}
+
+function sameMarker(marker: Marker, a: TextStyle, b: TextStyle): boolean {
+    if (marker === 'link') return a.link === b.link;
+    if (marker === 'script') return a.script === b.script;
+    return true;
+}
+
+function openingMarker(marker: Marker, style: TextStyle): string {
+    switch (marker) {
+        case 'link': return '[';
+        case 'script': return `<${style.script}>`;
+        case 'bold': return '**';
+        case 'italic': return '*';
+    }
+}
+
+function closingMarker(marker: Marker, style: TextStyle): string {
+    switch (marker) {
+        case 'link': return `](${style.link})`;
+        case 'script': return `</${style.script}>`;
+        case 'bold': return '**';
+        case 'italic': return '*';
+    }
+}
+
+/**
+ * Collapses whitespace as a browser would, writes small caps as capitals,
+ * and escapes the characters Markdown would read as emphasis
+ */
+function formatText(text: string, style: TextStyle): string {
+    let formatted = text.replace(/\s+/g, ' ');
+    if (style.smallCaps) formatted = formatted.toUpperCase();
+    return formatted
+        .replace(/\*/g, '\\*')
+        .replace(/(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, '\\_');
+}
+
+/**
+ * Keeps a paragraph that starts like a heading, quote or list item from being read as one
+ */
+function escapeLineStarts(markdown: string): string {
+    return markdown
+        .replace(/^([#>+-])(?=\s)/gm, '\\$1')
+        .replace(/^(\d+)\.(?=\s)/gm, '$1\\.');
+}
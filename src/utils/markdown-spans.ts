@@ -0,0 +1,77 @@
+/**
+ * Utility functions for finding the parts of a Markdown note that are not plain prose
+ *
+ * Links, URLs, code, wikilinks, block IDs, HTML tags and comments must be left
+ * untouched when text is rewritten, for example by the verse linker.
+ */
+
+export type ProtectedSpanKind =
+    | 'frontmatter'
+    | 'code-block'
+    | 'math-block'
+    | 'comment'
+    | 'inline-code'
+    | 'wikilink'
+    | 'link'
+    | 'url'
+    | 'html'
+    | 'block-id';
+
+export interface ProtectedSpan {
+    kind: ProtectedSpanKind;
+    start: number;
+    end: number;
+}
+
+// Order matters: earlier patterns win when spans overlap, e.g. a URL inside a code block
+const PROTECTED_PATTERNS: Array<[ProtectedSpanKind, RegExp]> = [
+    ['frontmatter', /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/g],
+    ['code-block', /^[ \t>]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t>]*\1[ \t]*$|(?![\s\S]))/gm],
+    ['math-block', /\$\$[\s\S]*?\$\$/g],
+    ['comment', /<!--[\s\S]*?-->|%%[\s\S]*?%%/g],
+    ['inline-code', /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g],
+    ['wikilink', /!?\[\[[^\]\n]*\]\]/g],
+    ['link', /!?\[(?:[^[\]\n]|\[[^\]\n]*\])*\]\([^)\n]*(?:\([^)\n]*\)[^)\n]*)*\)|!?\[[^\]\n]*\]\[[^\]\n]*\]|^[ \t]*\[[^\]\n]+\]:[^\n]*$|\[\^[^\]\n]+\]/gm],
+    ['url', /<[a-z][\w+.-]*:[^>\s]*>|\b[a-z][\w+.-]*:\/\/[^\s<>"'\])]*(?:\([^\s)]*\)[^\s<>"'\])]*)*/gi],
+    ['html', /<\/?[A-Za-z][^<>\n]*>/g],
+    ['block-id', /(?:^|[ \t])\^[\w-]+[ \t]*$/gm]
+];
+
+/**
+ * Finds the non-prose spans of a Markdown text, sorted by offset and never overlapping
+ */
+export function findProtectedSpans(text: string): ProtectedSpan[] {
+    const spans: ProtectedSpan[] = [];
+
+    for (const [kind, source] of PROTECTED_PATTERNS) {
+        const pattern = new RegExp(source.source, source.flags);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+            const start = match.index;
+            const end = start + match[0].length;
+            if (!spans.some(span => start < span.end && end > span.start)) {
+                spans.push({ kind, start, end });
+            }
+        }
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces every protected character with a placeholder, keeping offsets and line breaks,
+ * so pattern matching only sees prose
+ */
+export function maskProtectedSpans(text: string, spans: ProtectedSpan[] = findProtectedSpans(text)): string {
+    let masked = '';
+    let last = 0;
+    for (const span of spans) {
+        masked += text.slice(last, span.start) + text.slice(span.start, span.end).replace(/[^\n]/g, '\u0000');
+        last = span.end;
+    }
+    return masked + text.slice(last);
+}
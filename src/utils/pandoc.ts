@@ -0,0 +1,128 @@
+/**
+ * Utility functions for writing citations the way Pandoc reads them
+ */
+
+import { formatYamlScalar } from './frontmatter';
+import { findLogosCallouts } from './logos-callouts';
+import { findProtectedSpans, maskProtectedSpans } from './markdown-spans';
+
+/**
+ * How the paste command cites a quote: a `[!logos]` callout, a blockquote with a
+ * Pandoc citation, or a blockquote with a Markdown footnote
+ */
+export type CitationInsertMode = 'callout' | 'pandoc' | 'footnote';
+
+/**
+ * Formats a Pandoc citation such as `[@Grudem-1994, 226]`; a bare locator is read as a page
+ */
+export function formatPandocCitation(citeKey: string, page: string | null): string {
+    return page ? `[@${citeKey}, ${page}]` : `[@${citeKey}]`;
+}
+
+/**
+ * Returns the number after the highest numbered footnote in the note
+ */
+export function getNextFootnoteNumber(content: string): number {
+    let highest = 0;
+    for (const match of content.matchAll(/\[\^(\d+)\]/g)) {
+        highest = Math.max(highest, parseInt(match[1], 10));
+    }
+    return highest + 1;
+}
+
+/**
+ * Formats the definition of a footnote that cites a formatted reference
+ */
+export function formatFootnoteDefinition(footnote: number, reference: string, pageLabel: string | null): string {
+    const text = pageLabel ? `${reference.replace(/\.$/, '')}, ${pageLabel}.` : reference;
+    return `[^${footnote}]: ${text}`;
+}
+
+export interface PandocExport {
+    content: string;
+    /** Every cite key the exported note cites, in order of first use */
+    citeKeys: string[];
+}
+
+const REFLY_LINK = /^\[([^\]\n]*)\]\(https?:\/\/ref\.ly\/[^)\s]*\)$/;
+
+/**
+ * Turns a note into Pandoc-ready Markdown: each `[!logos]` callout becomes a blockquote
+ * followed by `[@citeKey, page]`, ref.ly links become their text and block IDs are removed.
+ * `getCiteKey` returns the cite key of the reference note a callout links to.
+ */
+export function convertNoteForPandoc(content: string, getCiteKey: (referenceLink: string) => string | null): PandocExport {
+    let converted = content;
+    for (const callout of findLogosCallouts(content).reverse()) {
+        const citeKey = callout.referenceLink ? getCiteKey(callout.referenceLink) : null;
+        const lines = callout.quote.split('\n').map(line => line.trim() ? `> ${line}` : '>');
+        if (citeKey) lines.push(`> ${formatPandocCitation(citeKey, callout.page)}`);
+        converted = converted.slice(0, callout.start) + lines.join('\n') + converted.slice(callout.end);
+    }
+
+    const spans = findProtectedSpans(converted).reverse();
+    for (const span of spans) {
+        const text = converted.slice(span.start, span.end);
+        if (span.kind === 'block-id') {
+            converted = converted.slice(0, span.start) + converted.slice(span.end);
+        } else if (span.kind === 'link' && REFLY_LINK.test(text)) {
+            converted = converted.slice(0, span.start) + text.replace(REFLY_LINK, '$1') + converted.slice(span.end);
+        }
+    }
+
+    return { content: converted, citeKeys: findPandocCiteKeys(converted) };
+}
+
+/**
+ * Finds the cite keys of the Pandoc citations in a note, outside code and comments
+ */
+export function findPandocCiteKeys(content: string): string[] {
+    const spans = findProtectedSpans(content)
+        .filter(span => ['frontmatter', 'code-block', 'inline-code', 'comment'].includes(span.kind));
+    const masked = maskProtectedSpans(content, spans);
+
+    const keys = new Set<string>();
+    for (const citation of masked.matchAll(/\[[^[\]\n]*@[^[\]\n]*\]/g)) {
+        for (const key of citation[0].matchAll(/(?:^|[\s;[-])@(\w[\w:.#$%&+?<>~/-]*)/g)) {
+            keys.add(key[1].replace(/[.:]+$/, ''));
+        }
+    }
+    return Array.from(keys);
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Points Pandoc at the exported .bib file through the note's `bibliography` property
+ */
+export function setPandocBibliography(content: string, bibPath: string): string {
+    const line = `bibliography: ${formatYamlScalar(bibPath)}`;
+    const frontmatter = FRONTMATTER_REGEX.exec(content);
+    if (!frontmatter) return `---\n${line}\n---\n\n${content}`;
+
+    const properties = frontmatter[1] ?? '';
+    const updated = /^bibliography:.*$/m.test(properties)
+        ? properties.replace(/^bibliography:.*$/m, line)
+        : `${properties}${line}\n`;
+    return `---\n${updated}---\n${content.slice(frontmatter[0].length)}`;
+}
+
+/**
+ * Returns true when a note is an earlier export that points at this .bib file,
+ * so the export only ever overwrites what it wrote itself
+ */
+export function isPandocExport(content: string, bibPath: string): boolean {
+    const line = `bibliography: ${formatYamlScalar(bibPath)}`;
+    const frontmatter = FRONTMATTER_REGEX.exec(content);
+    return !!frontmatter && (frontmatter[1] ?? '').split(/\r?\n/).some(property => property.trimEnd() === line);
+}
+
+/**
+ * Returns which of the export's two files would replace something it did not write, or null when both are safe.
+ * `markdown` is the content of the existing note (null when there is none); the .bib file only counts as an
+ * earlier export when the note next to it is one.
+ */
+export function findPandocExportConflict(markdown: string | null, bibExists: boolean, bibPath: string): 'markdown' | 'bib' | null {
+    if (markdown !== null) return isPandocExport(markdown, bibPath) ? null : 'markdown';
+    return bibExists ? 'bib' : null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Utility functions for taking a paste back out of a note
+ */
+
+/**
+ * Runs the steps of a paste that reserve block numbers in a note. If a step throws, the note's
+ * counter is put back to where it was before the first reservation and the error is rethrown,
+ * so numbers reserved for the citations before a failing one are released.
+ */
+export async function withBlockCounterRollback<T>(counters: Record<string, number>, path: string, run: () => T | Promise<T>): Promise<T> {
+    const before: number | undefined = counters[path];
+    try {
+        return await run();
+    } catch (error) {
+        restoreBlockCounter(counters, path, before);
+        throw error;
+    }
+}
+
+/**
+ * Puts a note's block counter back, removing it when the note had none
+ */
+export function restoreBlockCounter(counters: Record<string, number>, path: string, counter: number | undefined): void {
+    if (counter === undefined) delete counters[path];
+    else counters[path] = counter;
+}
+
+/**
+ * Removes what a paste inserted: the exact text if it is still in the note, otherwise
+ * each quote block ending in one of the block IDs. Footnote definitions it added are removed too.
+ */
+export function removePastedText(content: string, inserted: string, blockIds: string[], footnotes: string[] = []): string {
+    let result = content;
+    const index = inserted.trim() ? result.indexOf(inserted) : -1;
+    if (index !== -1) {
+        result = result.slice(0, index) + result.slice(index + inserted.length);
+    } else {
+        blockIds.forEach(blockId => {
+            result = removeQuoteBlock(result, blockId);
+        });
+    }
+
+    if (footnotes.length > 0) {
+        const definitions = new Set(footnotes);
+        result = result.split('\n').filter(line => !definitions.has(line)).join('\n').replace(/\n{3,}$/, '\n');
+    }
+    return result;
+}
+
+/**
+ * Removes the blockquote or callout whose block ID is `blockId`, with the blank line after it
+ */
+export function removeQuoteBlock(content: string, blockId: string): string {
+    const lines = content.split('\n');
+    const pattern = new RegExp(`(?:^|\\s)\\^${blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+    const idLine = lines.findIndex(line => pattern.test(line));
+    if (idLine === -1) return content;
+
+    let start = idLine;
+    while (start > 0 && lines[start - 1].startsWith('>')) start--;
+    let end = idLine + 1;
+    while (end < lines.length && lines[end].startsWith('>')) end++;
+    if (end < lines.length && lines[end].trim() === '') end++;
+
+    lines.splice(start, end - start);
+    return lines.join('\n');
+}
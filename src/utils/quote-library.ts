@@ -0,0 +1,182 @@
+/**
+ * In-memory library of the `[!logos]` callouts in each note, joined with their reference notes
+ */
+
+import { BibtexEntry, getBibtexField, parseBibtexCodeBlocks } from './bibtex-parser';
+import { findLogosCallouts, LogosCallout, normalizeQuoteText } from './logos-callouts';
+import { referenceOverlaps } from './scripture-index';
+import { parseScriptureReferences, ScriptureReference } from './scripture-parser';
+import { formatAuthorNames } from './template-engine';
+import { normalizeCiteKey } from './clipboard-parser';
+
+export interface QuoteEntry {
+    filePath: string;
+    callout: LogosCallout;
+    /** The reference note the callout links to, if it resolves */
+    referencePath: string | null;
+    citeKey: string | null;
+    title: string | null;
+    author: string | null;
+    year: string | null;
+    /** Tags of the note the quote lives in */
+    tags: string[];
+    passages: ScriptureReference[];
+    mtime: number;
+}
+
+export interface QuoteFilter {
+    text?: string;
+    author?: string;
+    title?: string;
+    tag?: string;
+    /** A scripture passage such as "Romans 8" that the quote must cite */
+    passage?: string;
+}
+
+export type QuoteSortOrder = 'title' | 'author' | 'note' | 'modified';
+
+/**
+ * What the library needs from the vault to join callouts with their reference notes
+ */
+export interface QuoteLibraryContext {
+    resolveLink(linkpath: string, sourcePath: string): string | null;
+    getTags(filePath: string): string[];
+}
+
+interface IndexedFile {
+    callouts: LogosCallout[];
+    /** Scripture references cited in each callout */
+    passages: ScriptureReference[][];
+    bibtex: BibtexEntry | null;
+    mtime: number;
+}
+
+export class QuoteLibrary {
+    private files = new Map<string, IndexedFile>();
+
+    /**
+     * Replaces the callouts and BibTeX entry recorded for a note
+     */
+    indexFile(filePath: string, content: string, mtime: number = 0): void {
+        const callouts = findLogosCallouts(content);
+        const [bibtex] = parseBibtexCodeBlocks(content);
+        if (callouts.length > 0 || bibtex) {
+            const passages = callouts.map(callout => parseScriptureReferences(callout.quote));
+            this.files.set(filePath, { callouts, passages, bibtex: bibtex ?? null, mtime });
+        } else {
+            this.files.delete(filePath);
+        }
+    }
+
+    removeFile(filePath: string): void {
+        this.files.delete(filePath);
+    }
+
+    renameFile(oldPath: string, newPath: string): void {
+        const file = this.files.get(oldPath);
+        if (!file) return;
+        this.files.delete(oldPath);
+        this.files.set(newPath, file);
+    }
+
+    clear(): void {
+        this.files.clear();
+    }
+
+    /**
+     * Lists every quote with the details of the book it comes from
+     */
+    getEntries(context: QuoteLibraryContext): QuoteEntry[] {
+        const entries: QuoteEntry[] = [];
+        this.files.forEach((file, filePath) => {
+            const tags = file.callouts.length > 0 ? context.getTags(filePath) : [];
+            file.callouts.forEach((callout, index) => {
+                const referencePath = callout.referenceLink ? context.resolveLink(callout.referenceLink, filePath) : null;
+                const bibtex = referencePath ? this.files.get(referencePath)?.bibtex ?? null : null;
+                const author = bibtex ? getBibtexField(bibtex, 'author') ?? getBibtexField(bibtex, 'editor') : null;
+
+                entries.push({
+                    filePath,
+                    callout,
+                    referencePath,
+                    citeKey: bibtex?.key ?? null,
+                    title: bibtex ? getBibtexField(bibtex, 'title') : null,
+                    author: author ? formatAuthorNames(author) : null,
+                    year: bibtex ? getBibtexField(bibtex, 'year') ?? getBibtexField(bibtex, 'date')?.slice(0, 4) ?? null : null,
+                    tags,
+                    passages: file.passages[index],
+                    mtime: file.mtime
+                });
+            });
+        });
+        return entries;
+    }
+}
+
+/**
+ * Keeps the entries that match every filter that is set
+ */
+export function filterQuotes(entries: QuoteEntry[], filter: QuoteFilter): QuoteEntry[] {
+    const text = filter.text?.trim().toLowerCase();
+    const passages = filter.passage?.trim() ? parseScriptureReferences(filter.passage) : [];
+
+    return entries.filter(entry => {
+        if (filter.author && entry.author !== filter.author) return false;
+        if (filter.title && entry.title !== filter.title) return false;
+        if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+        if (filter.passage?.trim() && !passages.some(passage => entry.passages.some(reference =>
+            referenceOverlaps(reference, passage.book, passage.start, passage.end)
+        ))) return false;
+        if (text) {
+            const haystack = [entry.callout.quote, entry.title, entry.author, entry.citeKey, entry.filePath, entry.callout.page]
+                .filter(value => value)
+                .join('\n')
+                .toLowerCase();
+            if (!text.split(/\s+/).every(word => haystack.includes(word))) return false;
+        }
+        return true;
+    });
+}
+
+/**
+ * Finds a quote already in the library with the same cite key, page and text
+ */
+export function findDuplicateQuote(entries: QuoteEntry[], citeKey: string, page: string | null, quote: string): QuoteEntry | null {
+    const text = normalizeQuoteText(quote);
+    if (!text) return null;
+    return entries.find(entry =>
+        entry.callout.blockId !== null
+        && entry.citeKey !== null
+        && normalizeCiteKey(entry.citeKey) === normalizeCiteKey(citeKey)
+        && (entry.callout.page ?? '') === (page ?? '')
+        && normalizeQuoteText(entry.callout.quote) === text
+    ) ?? null;
+}
+
+/**
+ * Sorts entries; ties keep the order of the quotes within their note
+ */
+export function sortQuotes(entries: QuoteEntry[], order: QuoteSortOrder): QuoteEntry[] {
+    const byNote = (a: QuoteEntry, b: QuoteEntry) => a.filePath.localeCompare(b.filePath) || a.callout.start - b.callout.start;
+    const compare: Record<QuoteSortOrder, (a: QuoteEntry, b: QuoteEntry) => number> = {
+        title: (a, b) => compareText(a.title, b.title) || comparePages(a, b) || byNote(a, b),
+        author: (a, b) => compareText(a.author, b.author) || compareText(a.title, b.title) || byNote(a, b),
+        note: byNote,
+        modified: (a, b) => b.mtime - a.mtime || byNote(a, b)
+    };
+    return [...entries].sort(compare[order]);
+}
+
+/**
+ * Compares two optional values, with missing ones last
+ */
+function compareText(a: string | null, b: string | null): number {
+    if (a === b) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return a.localeCompare(b);
+}
+
+function comparePages(a: QuoteEntry, b: QuoteEntry): number {
+    return (parseInt(a.callout.page ?? '', 10) || 0) - (parseInt(b.callout.page ?? '', 10) || 0);
+}
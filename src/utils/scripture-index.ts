@@ -0,0 +1,164 @@
+/**
+ * In-memory index of the scripture references found in each note
+ */
+
+import { BOOK_NAMES, BOOK_ORDER } from '../constants/bible-books';
+import { findProtectedSpans, maskProtectedSpans, ProtectedSpanKind } from './markdown-spans';
+import { parseScriptureReferences, ScriptureReference, VerseLocation } from './scripture-parser';
+import { getLineContext, getLineNumber } from './text-utils';
+
+export interface ScriptureIndexEntry {
+    filePath: string;
+    reference: ScriptureReference;
+    /** Zero-based line the reference is on */
+    line: number;
+    context: string;
+}
+
+export interface VerseGroup {
+    /** Null for references to a whole chapter */
+    verse: number | null;
+    entries: ScriptureIndexEntry[];
+}
+
+export interface ChapterGroup {
+    chapter: number;
+    verses: VerseGroup[];
+    count: number;
+}
+
+export interface BookGroup {
+    book: string;
+    name: string;
+    chapters: ChapterGroup[];
+    count: number;
+}
+
+// Link labels and wikilinks still cite a passage, so only non-text spans are skipped
+const SKIPPED_SPANS: ProtectedSpanKind[] = ['frontmatter', 'code-block', 'math-block', 'comment', 'inline-code', 'url', 'html'];
+
+/**
+ * Finds the scripture references in one note's content
+ */
+export function extractScriptureEntries(filePath: string, content: string): ScriptureIndexEntry[] {
+    const spans = findProtectedSpans(content).filter(span => SKIPPED_SPANS.includes(span.kind));
+    return parseScriptureReferences(maskProtectedSpans(content, spans)).map(reference => ({
+        filePath,
+        reference,
+        line: getLineNumber(content, reference.offset),
+        context: getLineContext(content, reference.offset)
+    }));
+}
+
+/**
+ * Returns true when a reference overlaps the passage from `start` to `end` in the same book
+ */
+export function referenceOverlaps(reference: ScriptureReference, book: string, start: VerseLocation, end: VerseLocation): boolean {
+    return reference.book === book
+        && locationKey(reference.start, 'start') <= locationKey(end, 'end')
+        && locationKey(reference.end, 'end') >= locationKey(start, 'start');
+}
+
+/**
+ * Turns a location into a sortable number; a chapter-only location covers the whole chapter
+ */
+function locationKey(location: VerseLocation, side: 'start' | 'end'): number {
+    const verse = location.verse ?? (side === 'start' ? 0 : 999);
+    return location.chapter * 1000 + verse;
+}
+
+export class ScriptureIndex {
+    private entriesByFile = new Map<string, ScriptureIndexEntry[]>();
+
+    /**
+     * Replaces the entries for a note
+     */
+    indexFile(filePath: string, content: string): void {
+        const entries = extractScriptureEntries(filePath, content);
+        if (entries.length > 0) {
+            this.entriesByFile.set(filePath, entries);
+        } else {
+            this.entriesByFile.delete(filePath);
+        }
+    }
+
+    removeFile(filePath: string): void {
+        this.entriesByFile.delete(filePath);
+    }
+
+    renameFile(oldPath: string, newPath: string): void {
+        const entries = this.entriesByFile.get(oldPath);
+        if (!entries) return;
+        this.entriesByFile.delete(oldPath);
+        this.entriesByFile.set(newPath, entries.map(entry => ({ ...entry, filePath: newPath })));
+    }
+
+    clear(): void {
+        this.entriesByFile.clear();
+    }
+
+    getEntries(): ScriptureIndexEntry[] {
+        return Array.from(this.entriesByFile.values()).flat();
+    }
+
+    getFileEntries(filePath: string): ScriptureIndexEntry[] {
+        return this.entriesByFile.get(filePath) ?? [];
+    }
+
+    /**
+     * Returns every entry that overlaps the given passage
+     */
+    findPassage(book: string, start: VerseLocation, end: VerseLocation = start): ScriptureIndexEntry[] {
+        return this.getEntries().filter(entry => referenceOverlaps(entry.reference, book, start, end));
+    }
+
+    /**
+     * Groups entries by book, chapter and verse in canonical order.
+     * Ranges are listed under the verse they start at.
+     */
+    getTree(entries: ScriptureIndexEntry[] = this.getEntries()): BookGroup[] {
+        const books = new Map<string, Map<number, Map<number | null, ScriptureIndexEntry[]>>>();
+
+        entries.forEach(entry => {
+            const { book, start } = entry.reference;
+            const chapters = books.get(book) ?? new Map<number, Map<number | null, ScriptureIndexEntry[]>>();
+            const verses = chapters.get(start.chapter) ?? new Map<number | null, ScriptureIndexEntry[]>();
+            const list = verses.get(start.verse) ?? [];
+            list.push(entry);
+            verses.set(start.verse, list);
+            chapters.set(start.chapter, verses);
+            books.set(book, chapters);
+        });
+
+        return Array.from(books.entries())
+            .sort(([a], [b]) => bookRank(a) - bookRank(b))
+            .map(([book, chapters]) => {
+                const chapterGroups = Array.from(chapters.entries())
+                    .sort(([a], [b]) => a - b)
+                    .map(([chapter, verses]) => {
+                        const verseGroups = Array.from(verses.entries())
+                            .sort(([a], [b]) => (a ?? 0) - (b ?? 0))
+                            .map(([verse, list]) => ({
+                                verse,
+                                entries: [...list].sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line)
+                            }));
+                        return {
+                            chapter,
+                            verses: verseGroups,
+                            count: verseGroups.reduce((sum, group) => sum + group.entries.length, 0)
+                        };
+                    });
+                return {
+                    book,
+                    name: BOOK_NAMES[book] ?? book,
+                    chapters: chapterGroups,
+                    count: chapterGroups.reduce((sum, group) => sum + group.count, 0)
+                };
+            });
+    }
+}
+
+function bookRank(book: string): number {
+    const index = BOOK_ORDER.indexOf(book);
+    return index === -1 ? BOOK_ORDER.length : index;
+}
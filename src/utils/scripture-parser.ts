@@ -0,0 +1,281 @@
+/**
+ * Utility functions for parsing scripture references into typed ranges
+ *
+ * Handles single verses ("John 3:16"), verse and chapter ranges ("John 3:16–4:2",
+ * "Ps 23–24"), chapter-only references ("Psalm 23"), verse lists
+ * ("Rom 8:1, 28–30; 9:1") and references that carry the book and chapter
+ * forward ("cf. v. 12", "3:5").
+ */
+
+import { BIBLE_BOOKS, BOOK_CHAPTERS, BOOK_NAMES, SINGLE_CHAPTER_VERSES } from '../constants/bible-books';
+
+export interface VerseLocation {
+    chapter: number;
+    /** Null for chapter-only references */
+    verse: number | null;
+}
+
+export interface ScriptureReference {
+    /** Logos book code, e.g. "Jn" */
+    book: string;
+    start: VerseLocation;
+    end: VerseLocation;
+    /** The source text this part of the reference was parsed from */
+    text: string;
+    /** Offset of `text` within the parsed source */
+    offset: number;
+}
+
+interface ParsedItem {
+    start: VerseLocation;
+    end: VerseLocation;
+    /** Offset just past the item */
+    endPos: number;
+    /** True when the item starts with a plain number, e.g. "23" rather than "23:1" */
+    bare: boolean;
+}
+
+const BOOK = String.raw`\b(?<prefix>(?:[123]|I{1,3})\s*)?(?<name>[A-Za-z]+(?:\s+of\s+[A-Za-z]+)?)\.?\s+(?=\d)`;
+const MARKER = String.raw`\b(?<marker>[Vv]v?\.|[Vv]erses?|[Vv]er\.|[Cc]h(?:aps?)?\.|[Cc]hapters?)\s*(?=\d)`;
+const BARE = String.raw`(?<bare>\b\d+:\d+)`;
+
+const CANDIDATE = new RegExp(`${MARKER}|${BOOK}|${BARE}`, 'g');
+const BOOK_AT = new RegExp(`^${BOOK}`);
+const NUMBER = /^(\d+)(?:ff|[a-cf])?(?!\w)/;
+const DASH = /^\s*[-–—]\s*/;
+const SEPARATOR = /^\s*([,;])\s*/;
+
+// Two-letter abbreviations that are safe without a verse, unlike "Is", "So" or "Am"
+const CHAPTER_ONLY_ABBREVIATIONS = new Set(['ps', 'mt', 'mk', 'lk', 'jn']);
+
+// Book names that are also common English words ("Mark 5 people came", "Numbers 3 and 4 are odd")
+const ENGLISH_WORD_BOOKS = new Set(['mark', 'numbers', 'acts', 'job', 'judges', 'kings', 'lamentations', 'revelation', 'songs']);
+
+/**
+ * Looks up the Logos book code for a book name or abbreviation, e.g. "1 Cor." → "1Co"
+ */
+export function lookupBookCode(name: string): string | null {
+    const key = name.toLowerCase().replace(/[\s.]/g, '');
+    if (BIBLE_BOOKS[key]) return BIBLE_BOOKS[key];
+
+    // Roman numeral prefixes (I, II, III -> 1, 2, 3) only apply when they stand apart from the name
+    const roman = name.match(/^(I{1,3})\s+(.+)$/);
+    if (roman) {
+        return BIBLE_BOOKS[`${roman[1].length}${roman[2].toLowerCase().replace(/[\s.]/g, '')}`] ?? null;
+    }
+    return null;
+}
+
+/**
+ * Finds every scripture reference in the text.
+ * Compound references are split into one entry per part, each with its own source offset.
+ */
+export function parseScriptureReferences(text: string): ScriptureReference[] {
+    const references: ScriptureReference[] = [];
+    let context: { book: string, chapter: number, end: number } | null = null;
+
+    const pattern = new RegExp(CANDIDATE.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const groups = match.groups ?? {};
+
+        // A blank line ends the passage that carried-forward references belong to
+        if (context && /\n\s*\n/.test(text.slice(context.end, match.index))) {
+            context = null;
+        }
+
+        let parts: ScriptureReference[] = [];
+        if (groups.name) {
+            const book = lookupBookCode(`${groups.prefix ?? ''}${groups.name}`);
+            const bookText = match[0];
+            if (book) {
+                // In a book with one chapter, a plain number is a verse
+                const singleChapter = book in SINGLE_CHAPTER_VERSES;
+                parts = parseList(text, match.index + bookText.length, match.index, book, singleChapter ? 1 : null, singleChapter,
+                    item => allowsChapterOnly(bookText, book, item, text));
+            }
+        } else if (groups.marker && context) {
+            const isVerse = /^v/i.test(groups.marker);
+            parts = parseList(text, match.index + match[0].length, match.index, context.book, context.chapter, isVerse, () => true);
+        } else if (groups.bare && context && !/^\s*[ap]\.?m\b/i.test(text.slice(match.index + match[0].length))) {
+            parts = parseList(text, match.index, match.index, context.book, null, false, () => false);
+        }
+
+        if (parts.length === 0) {
+            pattern.lastIndex = match.index + 1;
+            continue;
+        }
+
+        references.push(...parts);
+        const last = parts[parts.length - 1];
+        context = { book: last.book, chapter: last.end.chapter, end: last.offset + last.text.length };
+        pattern.lastIndex = context.end;
+    }
+
+    return references;
+}
+
+/**
+ * Formats a reference for ref.ly, e.g. "Jn3.16", "Ge1.1-5", "Jn3.16-4.2", "Ps23"
+ */
+export function formatReflyReference(reference: ScriptureReference): string {
+    const { book, start, end } = reference;
+    const startText = start.verse !== null ? `${start.chapter}.${start.verse}` : `${start.chapter}`;
+
+    if (start.chapter === end.chapter && start.verse === end.verse) {
+        return `${book}${startText}`;
+    }
+    if (start.chapter === end.chapter && start.verse !== null && end.verse !== null) {
+        return `${book}${startText}-${end.verse}`;
+    }
+
+    const endText = end.verse !== null ? `${end.chapter}.${end.verse}` : `${end.chapter}`;
+    return `${book}${startText}-${endText}`;
+}
+
+/**
+ * Formats a reference for display, e.g. "John 3:16", "Romans 8:28–30", "John 3:16–4:2", "Psalms 23"
+ */
+export function formatScriptureReference(reference: ScriptureReference): string {
+    const { start, end } = reference;
+    const name = BOOK_NAMES[reference.book] ?? reference.book;
+    const startText = start.verse !== null ? `${start.chapter}:${start.verse}` : `${start.chapter}`;
+
+    if (start.chapter === end.chapter && start.verse === end.verse) {
+        return `${name} ${startText}`;
+    }
+    if (start.chapter === end.chapter && start.verse !== null && end.verse !== null) {
+        return `${name} ${startText}–${end.verse}`;
+    }
+
+    const endText = end.verse !== null ? `${end.chapter}:${end.verse}` : `${end.chapter}`;
+    return `${name} ${startText}–${endText}`;
+}
+
+/**
+ * A book name followed by a plain number ("Psalm 23", "Jude 3") is easy to confuse with prose
+ * ("Is 5 enough?", "Mark 5 people came"), so it needs a capitalized book name of three or more
+ * letters, a known abbreviation, or an abbreviation with a period. The number must exist in the
+ * book, and a book name that is also an English word must not be followed by another word.
+ */
+function allowsChapterOnly(bookText: string, book: string, item: ParsedItem, text: string): boolean {
+    const name = bookText.trim().replace(/^(?:[123]\s*|I{1,3}\s+)/, '');
+    const nameAllowed = /^[A-Z]/.test(name) && (
+        /^[A-Za-z]{3,}/.test(name)
+        || name.endsWith('.')
+        || CHAPTER_ONLY_ABBREVIATIONS.has(name.toLowerCase())
+    );
+    if (!nameAllowed) return false;
+
+    const verses = SINGLE_CHAPTER_VERSES[book];
+    const [first, last] = verses ? [item.start.verse ?? 0, item.end.verse ?? 0] : [item.start.chapter, item.end.chapter];
+    const highest = verses ?? BOOK_CHAPTERS[book] ?? Infinity;
+    if (first < 1 || last > highest) return false;
+
+    return !(ENGLISH_WORD_BOOKS.has(name.toLowerCase()) && /^\s+[a-z]/.test(text.slice(item.endPos)));
+}
+
+/**
+ * Parses a list of items such as "8:1, 28–30; 9:1" starting at `pos`.
+ * The first part's text starts at `textStart` so it includes the book name or marker.
+ */
+function parseList(
+    text: string,
+    pos: number,
+    textStart: number,
+    book: string,
+    chapter: number | null,
+    expectVerse: boolean,
+    allowChapterOnly: (item: ParsedItem) => boolean
+): ScriptureReference[] {
+    const parts: ScriptureReference[] = [];
+    let itemStart = textStart;
+
+    for (;;) {
+        const item = parseItem(text, pos, chapter, expectVerse);
+        if (!item) break;
+        if (parts.length === 0 && item.bare && !allowChapterOnly(item)) break;
+
+        parts.push({
+            book,
+            start: item.start,
+            end: item.end,
+            text: text.slice(itemStart, item.endPos),
+            offset: itemStart
+        });
+        chapter = item.end.chapter;
+
+        const separator = SEPARATOR.exec(text.slice(item.endPos));
+        if (!separator) break;
+
+        const next = item.endPos + separator[0].length;
+        if (!NUMBER.test(text.slice(next)) || startsWithBook(text, next)) break;
+
+        // After a comma a bare number continues the verse list; after a semicolon it is a chapter,
+        // except in books with a single chapter
+        expectVerse = book in SINGLE_CHAPTER_VERSES || (separator[1] === ',' && item.end.verse !== null);
+        pos = itemStart = next;
+    }
+
+    return parts;
+}
+
+/**
+ * Parses one "C", "C:V", "V", or range of those
+ */
+function parseItem(text: string, pos: number, chapter: number | null, expectVerse: boolean): ParsedItem | null {
+    const first = readNumber(text, pos);
+    if (!first) return null;
+
+    let start: VerseLocation;
+    let endPos = first.end;
+
+    const verse = readVerseAfterChapter(text, first.end);
+    if (verse) {
+        start = { chapter: first.value, verse: verse.value };
+        endPos = verse.end;
+    } else if (expectVerse && chapter !== null) {
+        start = { chapter, verse: first.value };
+    } else {
+        start = { chapter: first.value, verse: null };
+    }
+
+    let end: VerseLocation = start;
+    const dash = DASH.exec(text.slice(endPos));
+    const second = dash ? readNumber(text, endPos + dash[0].length) : null;
+    if (dash && second) {
+        const endVerse = readVerseAfterChapter(text, second.end);
+        if (endVerse) {
+            end = { chapter: second.value, verse: endVerse.value };
+            endPos = endVerse.end;
+        } else if (start.verse !== null) {
+            end = { chapter: start.chapter, verse: second.value };
+            endPos = second.end;
+        } else {
+            end = { chapter: second.value, verse: null };
+            endPos = second.end;
+        }
+    }
+
+    return { start, end, endPos, bare: !verse };
+}
+
+/**
+ * Reads the verse in "3:16" (or "3.16") when `pos` is just past the chapter
+ */
+function readVerseAfterChapter(text: string, pos: number): { value: number, end: number } | null {
+    const separator = text[pos];
+    if (separator !== ':' && separator !== '.') return null;
+    return readNumber(text, pos + 1);
+}
+
+function readNumber(text: string, pos: number): { value: number, end: number } | null {
+    const match = NUMBER.exec(text.slice(pos));
+    if (!match) return null;
+    return { value: parseInt(match[1], 10), end: pos + match[0].length };
+}
+
+function startsWithBook(text: string, pos: number): boolean {
+    const match = BOOK_AT.exec(text.slice(pos));
+    return !!match?.groups && lookupBookCode(`${match.groups.prefix ?? ''}${match.groups.name}`) !== null;
+}
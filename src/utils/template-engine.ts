@@ -0,0 +1,147 @@
+/**
+ * Small template engine for the callout block and the reference note
+ *
+ * Supports `{{name}}` placeholders and `{{#if name}}...{{else}}...{{/if}}` or
+ * `{{#unless name}}...{{/unless}}` conditionals. A conditional tag on a line of its
+ * own takes the whole line with it, and a multi-line value placed after a `> ` prefix
+ * keeps that prefix on every line, so quotes stay inside their callout.
+ */
+
+import { BibtexEntry, getBibtexField, parseBibtexEntry } from './bibtex-parser';
+
+export type TemplateVariables = Record<string, string | null | undefined>;
+
+type TemplateNode =
+    | { type: 'text', value: string }
+    | { type: 'variable', name: string }
+    | { type: 'condition', name: string, negate: boolean, then: TemplateNode[], otherwise: TemplateNode[] };
+
+interface ParseResult {
+    nodes: TemplateNode[];
+    errors: string[];
+}
+
+const TAG_PATTERN = /\{\{\s*(?:(#if|#unless)\s+(\w+)|(else)|\/(if|unless)|(\w+))\s*\}\}/g;
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{\s*(?:#(?:if|unless)\s+\w+|else|\/(?:if|unless))\s*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Renders a template; missing or empty variables render as nothing and are false in conditionals
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+    return renderNodes(parseTemplate(template).nodes, variables, '');
+}
+
+/**
+ * Lists the problems in a template, such as an `{{#if}}` without its `{{/if}}`
+ */
+export function validateTemplate(template: string): string[] {
+    return parseTemplate(template).errors;
+}
+
+/**
+ * Builds the bibliographic variables shared by all templates from a BibTeX entry
+ */
+export function getBibtexVariables(bibtex: string | BibtexEntry | null): TemplateVariables {
+    const entry = typeof bibtex === 'string' ? parseBibtexEntry(bibtex) : bibtex;
+    if (!entry) return {};
+
+    const year = getBibtexField(entry, 'year') ?? getBibtexField(entry, 'date')?.match(/\d{4}/)?.[0] ?? null;
+    const author = getBibtexField(entry, 'author') ?? getBibtexField(entry, 'editor');
+
+    return {
+        citeKey: entry.key,
+        title: getBibtexField(entry, 'title'),
+        author: author ? formatAuthorNames(author) : null,
+        year,
+        publisher: getBibtexField(entry, 'publisher')
+    };
+}
+
+/**
+ * Turns a BibTeX name list ("Waltke, Bruce K. and Yu, Charles") into "Bruce K. Waltke and Charles Yu"
+ */
+export function formatAuthorNames(authors: string): string {
+    const names = splitAuthorNames(authors);
+    if (names.length <= 2) return names.join(' and ');
+    return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+}
+
+/**
+ * Splits a BibTeX name list into display names, turning "Last, First" into "First Last"
+ */
+export function splitAuthorNames(authors: string): string[] {
+    return authors.split(/\s+and\s+/).map(name => {
+        const [last, first] = name.split(/\s*,\s*/, 2);
+        return first ? `${first} ${last}` : name.trim();
+    }).filter(name => name);
+}
+
+function parseTemplate(template: string): ParseResult {
+    const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+    const root: TemplateNode[] = [];
+    const stack: Array<Extract<TemplateNode, { type: 'condition' }> & { inElse: boolean, tag: string }> = [];
+    const errors: string[] = [];
+    const current = () => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        return top.inElse ? top.otherwise : top.then;
+    };
+
+    const pattern = new RegExp(TAG_PATTERN.source, TAG_PATTERN.flags);
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        if (match.index > last) {
+            current().push({ type: 'text', value: source.slice(last, match.index) });
+        }
+        last = match.index + match[0].length;
+
+        const [tag, open, openName, elseTag, close, variable] = match;
+        if (open) {
+            const node = { type: 'condition' as const, name: openName, negate: open === '#unless', then: [], otherwise: [], inElse: false, tag: open.slice(1) };
+            current().push(node);
+            stack.push(node);
+        } else if (elseTag) {
+            const top = stack[stack.length - 1];
+            if (!top || top.inElse) {
+                errors.push(`Unexpected ${tag}`);
+                current().push({ type: 'text', value: tag });
+            } else {
+                top.inElse = true;
+            }
+        } else if (close) {
+            const top = stack[stack.length - 1];
+            if (!top || top.tag !== close) {
+                errors.push(`Unexpected ${tag}`);
+                current().push({ type: 'text', value: tag });
+            } else {
+                stack.pop();
+            }
+        } else {
+            current().push({ type: 'variable', name: variable });
+        }
+    }
+    if (last < source.length) {
+        current().push({ type: 'text', value: source.slice(last) });
+    }
+
+    stack.forEach(node => errors.push(`Missing {{/${node.tag}}} for {{#${node.tag} ${node.name}}}`));
+    return { nodes: root, errors };
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, output: string): string {
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.value;
+        } else if (node.type === 'variable') {
+            const value = variables[node.name] ?? '';
+            // Continue multi-line values with the quote prefix of the line they start on
+            const prefix = output.slice(output.lastIndexOf('\n') + 1).match(/^[ \t>]*/)?.[0] ?? '';
+            output += value.split('\n').join(`\n${prefix}`);
+        } else {
+            const truthy = Boolean(variables[node.name]?.trim());
+            output = renderNodes(truthy !== node.negate ? node.then : node.otherwise, variables, output);
+        }
+    }
+    return output;
+}
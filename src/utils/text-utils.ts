@@ -0,0 +1,70 @@
+/**
+ * Utility functions for locating positions in note text and adding blocks to it
+ */
+
+/**
+ * Returns the zero-based line number of an offset
+ */
+export function getLineNumber(text: string, offset: number): number {
+    let line = 0;
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (text[i] === '\n') line++;
+    }
+    return line;
+}
+
+/**
+ * Returns the trimmed line around an offset, shortened to `maxLength` characters
+ * with the offset kept in view
+ */
+export function getLineContext(text: string, offset: number, maxLength: number = 120): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const newline = text.indexOf('\n', offset);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(lineStart, lineEnd);
+
+    if (line.trim().length <= maxLength) return line.trim();
+
+    const column = offset - lineStart;
+    const start = Math.max(0, Math.min(column - Math.floor(maxLength / 3), line.length - maxLength));
+    const snippet = line.slice(start, start + maxLength).trim();
+    return `${start > 0 ? '…' : ''}${snippet}${start + maxLength < line.length ? '…' : ''}`;
+}
+
+/**
+ * Adds a block at the end of the section under a heading, or at the end of the note when no heading is given.
+ * A heading that is not in the note is added at the end.
+ */
+export function appendToSection(content: string, heading: string | null, block: string): string {
+    const text = block.replace(/\n+$/, '');
+    const title = heading?.replace(/^#+\s*/, '').trim().toLowerCase();
+    if (!title) {
+        return content.trim() ? `${content.trimEnd()}\n\n${text}\n` : `${text}\n`;
+    }
+
+    const lines = content.split('\n');
+    let inCode = false;
+    let level = 0;
+    let offset = 0;
+    let sectionEnd = -1;
+    for (const line of lines) {
+        if (/^[ \t]*(`{3,}|~{3,})/.test(line)) inCode = !inCode;
+        const match = inCode ? null : /^(#{1,6})[ \t]+(.*?)[ \t#]*$/.exec(line);
+        if (match && level > 0 && match[1].length <= level) {
+            sectionEnd = offset;
+            break;
+        }
+        if (match && level === 0 && match[2].trim().toLowerCase() === title) {
+            level = match[1].length;
+        }
+        offset += line.length + 1;
+    }
+
+    if (level === 0) {
+        return appendToSection(content, null, `## ${heading?.replace(/^#+\s*/, '').trim()}\n\n${text}`);
+    }
+    if (sectionEnd === -1) {
+        return `${content.trimEnd()}\n\n${text}\n`;
+    }
+    return `${content.slice(0, sectionEnd).trimEnd()}\n\n${text}\n\n${content.slice(sectionEnd)}`;
+}